@@ -0,0 +1,374 @@
+// generates typescript types for the parameters and rows of queries, using a
+// live database to describe them.
+//
+//   deno run -A gen.ts [options] <paths...>
+//
+//   --url <string>     connection string (default $DATABASE_URL)
+//   --out <dir>        output directory (default next to each source file)
+//   --module <string>  module to import pglue types from
+//   --temporal         use temporal types for date/time columns
+//
+// each .sql file is a single query named after the file, e.g. get_user.sql
+// generates GetUser and GetUserParams. in typescript files, query<Name>`...`
+// tagged templates generate Name and NameParams; interpolations are assumed to
+// be parameters, so templates that embed sql fragments cannot be described.
+// every query is emitted as its own declaration file, e.g. GetUser.d.ts.
+import { dirname, join } from "jsr:@std/path@^1.0.8";
+import { connect, sql, WireError, type Postgres } from "./mod.ts";
+import type { Column, Description, Parameter } from "./query.ts";
+
+export interface QuerySource {
+  readonly name: string;
+  readonly file: string;
+  readonly query: string;
+}
+
+export interface GenerateOptions {
+  readonly temporal: boolean;
+  readonly module: string;
+}
+
+// matches query templates, with their type argument if any
+const query_re = /\bquery\s*(?:<([^`;]*?)>)?\s*`/g;
+const name_re = /^[A-Za-z_$][\w$]*$/;
+
+export function extract_queries(file: string, text: string): QuerySource[] {
+  if (file.endsWith(".sql")) {
+    const base = file.slice(file.lastIndexOf("/") + 1, -".sql".length);
+    const name = base
+      .split(/[^A-Za-z0-9]+/)
+      .map((s) => s.charAt(0).toUpperCase() + s.slice(1))
+      .join("");
+    return [{ name, file, query: text }];
+  }
+
+  const queries: QuerySource[] = [];
+  for (const m of text.matchAll(query_re)) {
+    const name = m[1]?.trim() ?? "";
+    if (name_re.test(name)) {
+      const [query] = template_parse(text, m.index + m[0].length);
+      queries.push({ name, file, query });
+    } else {
+      const line = text.slice(0, m.index).split("\n").length;
+      console.warn(
+        `${file}:${line}: skipped query template, as it has no query<Name> type argument`
+      );
+    }
+  }
+  return queries;
+}
+
+// parses the template literal whose body starts at s[i], replacing
+// interpolations with parameter placeholders
+function template_parse(s: string, i: number): [string, number] {
+  let query = "";
+  for (let n = 0; i < s.length; i++) {
+    const c = s[i];
+    if (c === "`") return [template_cook(query), i + 1];
+    else if (c === "\\") query += c + (s[++i] ?? "");
+    else if (c === "$" && s[i + 1] === "{") {
+      i = expr_skip(s, i + 2);
+      query += `$${++n}`;
+    } else query += c;
+  }
+  throw new WireError(`unterminated template literal`);
+}
+
+// https://tc39.es/ecma262/#sec-static-semantics-tv
+const escape_re =
+  /\\(?:x([0-9a-fA-F]{2})|u([0-9a-fA-F]{4})|u\{([0-9a-fA-F]+)\}|(\r\n?|[\n\u2028\u2029])|([^]))/g;
+
+const escapes: Partial<Record<string, string>> = {
+  0: "\0",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  v: "\v",
+};
+
+// evaluates the escape sequences in the raw text of a template literal. an
+// escaped line terminator is a line continuation, so it is removed
+function template_cook(s: string) {
+  return s.replace(escape_re, (_, x, u, cp, nl, c) => {
+    if (x || u) return String.fromCharCode(parseInt(x || u, 16));
+    else if (cp) return String.fromCodePoint(parseInt(cp, 16));
+    else if (nl) return "";
+    else return escapes[c] ?? c;
+  });
+}
+
+// returns the index of the '}' closing the interpolation starting at s[i]
+function expr_skip(s: string, i: number) {
+  for (let depth = 0; i < s.length; i++) {
+    const c = s[i];
+    if (c === "{") depth++;
+    else if (c === "}" && depth-- === 0) return i;
+    else if (c === "`") i = template_parse(s, i + 1)[1] - 1;
+    else if (c === `"` || c === `'`) {
+      for (i++; i < s.length && s[i] !== c; i++) if (s[i] === "\\") i++;
+    }
+  }
+  throw new WireError(`unterminated template literal`);
+}
+
+// https://www.postgresql.org/docs/current/catalog-pg-type.html
+interface TypeInfo {
+  oid: number;
+  typtype: string;
+  typelem: number;
+  typbasetype: number;
+  typrelid: number;
+  is_array: boolean;
+  subtype: number;
+  labels: string[];
+}
+
+// https://www.postgresql.org/docs/current/catalog-pg-attribute.html
+interface AttrInfo {
+  attrelid: number;
+  attname: string;
+  atttypid: number;
+  attnum: number;
+  attnotnull: boolean;
+}
+
+// the values decoded by the types in sql_types
+const ts_types: Partial<Record<number, string>> = {
+  16: "boolean", // bool
+  17: "Uint8Array", // bytea
+  18: "string", // char
+  19: "string", // name
+  20: "number | bigint", // int8
+  21: "number", // int2
+  23: "number", // int4
+  25: "string", // text
+  26: "number", // oid
+  28: "number", // xid
+  29: "number", // cid
+  114: "unknown", // json
+  600: "Point", // point
+  601: "Point[]", // lseg
+  602: "Path", // path
+  603: "Point[]", // box
+  604: "Point[]", // polygon
+  628: "Line", // line
+  650: "Inet", // cidr
+  700: "number", // float4
+  701: "number", // float8
+  718: "Circle", // circle
+  790: "bigint", // money
+  869: "Inet", // inet
+  1082: "string", // date
+  1083: "string", // time
+  1114: "Date", // timestamp
+  1184: "Date", // timestamptz
+  1186: "string", // interval
+  1700: "string", // numeric
+  2249: "(string | null)[]", // record
+  3802: "unknown", // jsonb
+  5069: "number | bigint", // xid8
+};
+
+// the values decoded by temporal_types
+const ts_temporal_types: Partial<Record<number, string>> = {
+  1082: "Temporal.PlainDate", // date
+  1083: "Temporal.PlainTime", // time
+  1114: "Temporal.PlainDateTime", // timestamp
+  1184: "Temporal.Instant", // timestamptz
+  1186: "Temporal.Duration", // interval
+};
+
+const pglue_types = ["Inet", "Point", "Line", "Path", "Circle", "Range"];
+
+export async function generate(
+  pg: Postgres,
+  queries: QuerySource[],
+  {
+    temporal = false,
+    module = "jsr:@luaneko/pglue",
+  }: Partial<GenerateOptions> = {}
+): Promise<Map<string, string>> {
+  const descs: [QuerySource, Description][] = [];
+  const names = new Set<string>();
+  for (const q of queries) {
+    if (names.has(q.name))
+      throw new WireError(`duplicate query name '${q.name}' in ${q.file}`);
+    try {
+      names.add(q.name), descs.push([q, await pg.describe(sql.raw(q.query))]);
+    } catch (e) {
+      throw new WireError(`failed to describe query '${q.name}' in ${q.file}`, {
+        cause: e,
+      });
+    }
+  }
+
+  // only the types used by the queries are loaded, along with the types they
+  // are made of, and the columns of the tables and composite types among them
+  const oids = new Set<number>();
+  const relids = new Set<number>();
+  for (const [, { params, columns }] of descs) {
+    for (const p of params) oids.add(p.type_oid);
+    for (const c of columns) oids.add(c.type_oid), relids.add(c.table_oid);
+  }
+
+  const type_info = new Map<number, TypeInfo>();
+  for (const t of await pg.query<TypeInfo>`
+    with recursive deps(oid) as (
+      select unnest(${[...oids]}::oid[])
+      union
+      select x from deps
+      join pg_type t on t.oid = deps.oid
+      left join pg_range r on t.oid in (r.rngtypid, r.rngmultitypid),
+      unnest(array[t.typelem, t.typbasetype, coalesce(r.rngsubtype, 0)] ||
+        array(select a.atttypid from pg_attribute a
+          where a.attrelid = t.typrelid and a.attnum > 0 and not a.attisdropped)) x
+      where x <> 0
+    )
+    select
+      t.oid,
+      t.typtype,
+      t.typelem,
+      t.typbasetype,
+      t.typrelid,
+      t.typcategory = 'A' as is_array,
+      coalesce(r.rngsubtype, m.rngsubtype, 0) as subtype,
+      coalesce(
+        (select array_agg(e.enumlabel::text order by e.enumsortorder)
+          from pg_enum e where e.enumtypid = t.oid),
+        '{}'
+      ) as labels
+    from pg_type t
+    left join pg_range r on r.rngtypid = t.oid
+    left join pg_range m on m.rngmultitypid = t.oid
+    where t.oid in (select oid from deps)
+  `) {
+    type_info.set(t.oid, t);
+    if (t.typrelid !== 0) relids.add(t.typrelid);
+  }
+
+  const attrs = new Map<number, AttrInfo[]>();
+  for (const a of await pg.query<AttrInfo>`
+    select attrelid, attname::text, atttypid, attnum, attnotnull
+    from pg_attribute
+    where attrelid = any(${[...relids]}::oid[])
+      and attnum > 0 and not attisdropped
+    order by attrelid, attnum
+  `)
+    attrs.get(a.attrelid)?.push(a) ?? attrs.set(a.attrelid, [a]);
+
+  const used = new Set<string>();
+  const ts_type = (oid: number): string => {
+    const known = (temporal && ts_temporal_types[oid]) || ts_types[oid];
+    const t = type_info.get(oid);
+    let s;
+    if (known) s = known;
+    else if (t === undefined) s = "string";
+    else if (t.is_array && t.typelem) s = `(${ts_type(t.typelem)} | null)[]`;
+    else if (t.typtype === "d") s = ts_type(t.typbasetype);
+    else if (t.typtype === "e")
+      s = t.labels.map((l) => JSON.stringify(l)).join(" | ") || "never";
+    else if (t.typtype === "r") s = `Range<${ts_type(t.subtype)}>`;
+    else if (t.typtype === "m") s = `Range<${ts_type(t.subtype)}>[]`;
+    else if (t.typtype === "c")
+      s = `{ ${(attrs.get(t.typrelid) ?? [])
+        .map((a) => `${prop_name(a.attname)}: ${ts_type(a.atttypid)} | null;`)
+        .join(" ")} }`;
+    else s = "string"; // decoded as text
+    for (const name of pglue_types)
+      if (new RegExp(`\\b${name}\\b`).test(s)) used.add(name);
+    return s;
+  };
+
+  // columns taken directly from a table are only nullable if the table column
+  // is, though the nullable side of an outer join will still be reported as
+  // not null
+  const column_type = ({ table_oid, table_column, type_oid }: Column) => {
+    const attr = attrs.get(table_oid)?.find((a) => a.attnum === table_column);
+    const s = ts_type(type_oid);
+    return attr?.attnotnull ? s : `${s} | null`;
+  };
+
+  const param_type = ({ type_oid }: Parameter) => `${ts_type(type_oid)} | null`;
+
+  // one declaration file per query, keyed by query name
+  const files = new Map<string, string>();
+  for (const [{ name, file }, { params, columns }] of descs) {
+    used.clear();
+    let body = `\n`;
+    body += `export type ${name}Params = [${params.map(param_type).join(", ")}];\n`;
+    body += `export interface ${name} {\n`;
+    for (const c of columns)
+      body += `  ${prop_name(c.name)}: ${column_type(c)};\n`;
+    body += `}\n`;
+
+    let head = `// generated by pglue from ${file}; do not edit\n`;
+    if (used.size !== 0) {
+      const names = pglue_types.filter((name) => used.has(name));
+      head += `import type { ${names.join(", ")} } from ${JSON.stringify(module)};\n`;
+    }
+
+    files.set(name, head + body);
+  }
+
+  return files;
+}
+
+function prop_name(s: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(s) ? s : JSON.stringify(s);
+}
+
+async function* walk(path: string): AsyncGenerator<string> {
+  if ((await Deno.stat(path)).isFile) return yield path;
+  const entries = [];
+  for await (const e of Deno.readDir(path)) {
+    if (e.name.startsWith(".") || e.name === "node_modules") continue;
+    else if (e.isDirectory || /\.sql$|(?<!\.d)\.tsx?$/.test(e.name))
+      entries.push(e.name);
+  }
+  for (const name of entries.sort()) yield* walk(`${path}/${name}`);
+}
+
+async function main(args: string[]) {
+  let url = Deno.env.get("DATABASE_URL") ?? "";
+  let out: string | null = null;
+  let module: string | undefined;
+  let temporal = false;
+  const paths: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case "--url":
+        url = args[++i] ?? "";
+        break;
+      case "--out":
+        out = args[++i] ?? null;
+        break;
+      case "--module":
+        module = args[++i];
+        break;
+      case "--temporal":
+        temporal = true;
+        break;
+      default:
+        paths.push(args[i]);
+    }
+  }
+
+  const queries: QuerySource[] = [];
+  for (const path of paths.length ? paths : ["."]) {
+    for await (const file of walk(path))
+      queries.push(...extract_queries(file, await Deno.readTextFile(file)));
+  }
+
+  using pg = await connect(url, { temporal });
+  const files = await generate(pg, queries, { temporal, module });
+  if (out !== null) await Deno.mkdir(out, { recursive: true });
+  for (const { name, file } of queries) {
+    const path = join(out ?? dirname(file), `${name}.d.ts`);
+    await Deno.writeTextFile(path, files.get(name)!);
+  }
+}
+
+if (import.meta.main) await main(Deno.args);
@@ -8,11 +8,21 @@ export {
   Pool,
   PoolOptions,
   PostgresError,
+  QueryCancelledError,
+  QueryTimeoutError,
+  PoolCancelledError,
+  PoolTimeoutError,
+  PoolExhaustedError,
   type Postgres,
+  type SetupQuery,
   type WireEvents,
   type PoolEvents,
+  type PoolStats,
   type LogLevel,
+  type SslMode,
+  type SslNegotiation,
   type Parameters,
+  type StatementStats,
   type Transaction,
   type Channel,
   type ChannelEvents,
@@ -26,9 +36,32 @@ export {
   sql,
   sql_types,
   sql_format,
+  array_type,
+  numeric_type,
+  type NumericMode,
+  money_type,
+  date_type,
+  time_type,
+  timestamp_type,
+  timestamptz_type,
+  interval_type,
+  temporal_types,
+  type Inet,
+  type Point,
+  type Line,
+  type Path,
+  type Circle,
+  type Range,
+  range_type,
+  multirange_type,
+  enum_type,
+  composite_type,
   is_sql,
   Query,
   type Result,
+  type Column,
+  type Parameter,
+  type Description,
   type Row,
   type Rows,
   type RowStream,
@@ -49,6 +82,12 @@ export async function connect(s: string, options: Partial<WireOptions> = {}) {
   ).connect();
 }
 
+type ConnectionOptions = ReturnType<typeof pg_conn_str.parse> & {
+  sslmode?: string;
+  sslnegotiation?: string;
+  sslrootcert?: string;
+};
+
 function parse_conn(s: string, options: Partial<WireOptions>) {
   const {
     host,
@@ -56,9 +95,12 @@ function parse_conn(s: string, options: Partial<WireOptions>) {
     user,
     password,
     database,
-    ssl: _ssl, // TODO: ssl support
+    ssl,
+    sslmode,
+    sslnegotiation,
+    sslrootcert,
     ...runtime_params
-  } = s ? pg_conn_str.parse(s) : {};
+  } = s ? (pg_conn_str.parse(s) as ConnectionOptions) : {};
 
   return {
     ...options,
@@ -67,6 +109,12 @@ function parse_conn(s: string, options: Partial<WireOptions>) {
     user: options.user ?? user,
     password: options.password ?? password,
     database: options.database ?? database,
+    sslmode:
+      options.sslmode ??
+      sslmode ??
+      (ssl === true ? "require" : ssl === false ? "disable" : undefined),
+    sslnegotiation: options.sslnegotiation ?? sslnegotiation,
+    sslrootcert: options.sslrootcert ?? sslrootcert,
     runtime_params: { ...runtime_params, ...options.runtime_params },
   };
 }
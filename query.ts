@@ -1,5 +1,15 @@
 import type * as v from "./valita.ts";
-import { from_hex, to_hex, to_utf8 } from "./lstd.ts";
+import { from_hex, from_utf8, to_hex, to_utf8 } from "./lstd.ts";
+import {
+  f32,
+  f64,
+  i16,
+  i32,
+  i64,
+  object,
+  ser_decode,
+  ser_encode,
+} from "./ser.ts";
 
 export const sql_format = Symbol.for(`re.lua.pglue.sql_format`);
 
@@ -110,10 +120,15 @@ export function row(...xs: unknown[]) {
 export interface SqlType {
   input(value: string): unknown;
   output(value: unknown): string | null;
+  // binary format codecs, preferred over the text format if present
+  receive?(value: Uint8Array): unknown;
+  send?(value: unknown): Uint8Array | null;
 }
 
 export interface SqlTypeMap {
   readonly [oid: number]: SqlType | undefined;
+  // types can also be registered by name, which is resolved using pg_type
+  readonly [name: string]: SqlType | undefined;
 }
 
 export class SqlTypeError extends TypeError {
@@ -132,6 +147,13 @@ export const bool: SqlType = {
     if (typeof b === "boolean") return b ? "t" : "f";
     else throw new SqlTypeError(`invalid bool output '${x}'`);
   },
+  receive(buf) {
+    return buf[0] !== 0;
+  },
+  send(x) {
+    const s = bool.output(x);
+    return s === null ? null : Uint8Array.of(s === "t" ? 1 : 0);
+  },
 };
 
 const bool_names: Partial<Record<string, boolean>> = {
@@ -199,6 +221,13 @@ export const int2: SqlType = {
     if (Number.isInteger(n) && -32768 <= n && n <= 32767) return n.toString();
     else throw new SqlTypeError(`invalid int2 output '${x}'`);
   },
+  receive(buf) {
+    return ser_decode(i16, buf);
+  },
+  send(x) {
+    const s = int2.output(x);
+    return s === null ? null : ser_encode(i16, Number(s));
+  },
 };
 
 export const int4: SqlType = {
@@ -216,6 +245,13 @@ export const int4: SqlType = {
       return n.toString();
     else throw new SqlTypeError(`invalid int4 output '${x}'`);
   },
+  receive(buf) {
+    return ser_decode(i32, buf);
+  },
+  send(x) {
+    const s = int4.output(x);
+    return s === null ? null : ser_encode(i32, Number(s));
+  },
 };
 
 export const uint4: SqlType = {
@@ -232,6 +268,13 @@ export const uint4: SqlType = {
     if (Number.isInteger(n) && 0 <= n && n <= 4294967295) return n.toString();
     else throw new SqlTypeError(`invalid uint4 output '${x}'`);
   },
+  receive(buf) {
+    return ser_decode(i32, buf) >>> 0;
+  },
+  send(x) {
+    const s = uint4.output(x);
+    return s === null ? null : ser_encode(i32, Number(s) | 0);
+  },
 };
 
 export const int8: SqlType = {
@@ -256,6 +299,15 @@ export const int8: SqlType = {
       return n.toString();
     } else throw new SqlTypeError(`invalid int8 output '${x}'`);
   },
+  receive(buf) {
+    const n = ser_decode(i64, buf);
+    if (-9007199254740991n <= n && n <= 9007199254740991n) return Number(n);
+    else return n;
+  },
+  send(x) {
+    const s = int8.output(x);
+    return s === null ? null : ser_encode(i64, BigInt(s));
+  },
 };
 
 export const uint8: SqlType = {
@@ -295,6 +347,13 @@ export const float4: SqlType = {
     }
     return Math.fround(n).toString();
   },
+  receive(buf) {
+    return ser_decode(f32, buf);
+  },
+  send(x) {
+    const s = float4.output(x);
+    return s === null ? null : ser_encode(f32, Number(s));
+  },
 };
 
 export const float8: SqlType = {
@@ -312,44 +371,626 @@ export const float8: SqlType = {
     }
     return n.toString();
   },
+  receive(buf) {
+    return ser_decode(f64, buf);
+  },
+  send(x) {
+    const s = float8.output(x);
+    return s === null ? null : ser_encode(f64, Number(s));
+  },
 };
 
-export const timestamptz: SqlType = {
+export type NumericMode =
+  | "string"
+  | "number"
+  | "bigint"
+  | { new (value: string): unknown };
+
+const numeric_re = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+
+// numeric is returned as a string by default to avoid losing precision, but
+// can be configured to return a number, a bigint (integral values only), or
+// an instance of a user-supplied decimal class, e.g.
+// `types: { 1700: numeric_type(Decimal) }`
+export function numeric_type(mode: NumericMode = "string"): SqlType {
+  return {
+    input(s) {
+      if (typeof mode === "function") return new mode(s);
+      else if (mode === "number") return Number(s);
+      else if (mode === "string") return s;
+      const m = /^([+-]?\d+)(?:\.0*)?$/.exec(s); // bigint
+      if (m !== null) return BigInt(m[1]);
+      else throw new SqlTypeError(`invalid numeric integral input '${s}'`);
+    },
+    output(x) {
+      let s: string;
+      if (typeof x === "undefined" || x === null) return null;
+      else if (typeof x === "number") {
+        if (Number.isNaN(x)) return "NaN";
+        else if (x === Infinity) return "Infinity";
+        else if (x === -Infinity) return "-Infinity";
+        else s = x.toString();
+      } else s = String(x).trim(); // bigint, string or decimal class
+      if (numeric_re.test(s)) return s;
+      else if (/^nan$/i.test(s)) return "NaN";
+      else if (/^[+]?inf(inity)?$/i.test(s)) return "Infinity";
+      else if (/^-inf(inity)?$/i.test(s)) return "-Infinity";
+      else throw new SqlTypeError(`invalid numeric output '${x}'`);
+    },
+  };
+}
+
+export const numeric = numeric_type();
+
+// https://www.postgresql.org/docs/current/datatype-datetime.html
+//
+// infinite values are returned as ±Infinity.
+// by default, date is returned as an iso string (a calendar date is not an
+// instant), timestamp and timestamptz as a Date (timestamp wall clock time is
+// read in utc), time as a string, and interval as an iso 8601 duration string.
+// with the `temporal` option, these are returned as Temporal objects instead.
+
+const day_us = 86400000000n;
+const pg_epoch_us = 946684800000000n; // 2000-01-01T00:00:00Z in unix epoch
+const pg_epoch_days = 10957;
+
+// days since unix epoch to and from a proleptic gregorian date using
+// astronomical year numbering (1 BC is year 0)
+// https://howardhinnant.github.io/date_algorithms.html
+function days_from_civil(y: number, m: number, d: number) {
+  y -= m <= 2 ? 1 : 0;
+  const era = Math.floor(y / 400);
+  const yoe = y - era * 400;
+  const doy = Math.floor((153 * (m > 2 ? m - 3 : m + 9) + 2) / 5) + d - 1;
+  const doe = yoe * 365 + Math.floor(yoe / 4) - Math.floor(yoe / 100) + doy;
+  return era * 146097 + doe - 719468;
+}
+
+function civil_from_days(z: number) {
+  z += 719468;
+  const era = Math.floor(z / 146097);
+  const doe = z - era * 146097;
+  const yoe = Math.floor(
+    (doe -
+      Math.floor(doe / 1460) +
+      Math.floor(doe / 36524) -
+      Math.floor(doe / 146096)) /
+      365
+  );
+  const doy = doe - (365 * yoe + Math.floor(yoe / 4) - Math.floor(yoe / 100));
+  const mp = Math.floor((5 * doy + 2) / 153);
+  const d = doy - Math.floor((153 * mp + 2) / 5) + 1;
+  const m = mp < 10 ? mp + 3 : mp - 9;
+  return [yoe + era * 400 + (m <= 2 ? 1 : 0), m, d] as const;
+}
+
+function div_floor(a: bigint, b: bigint) {
+  const q = a / b;
+  return a % b < 0n ? q - 1n : q;
+}
+
+function pad(n: number | bigint, width = 2) {
+  return n.toString().padStart(width, "0");
+}
+
+function fraction_us(s = "") {
+  return Number(s.slice(0, 6).padEnd(6, "0"));
+}
+
+function fraction_format(us: number) {
+  return us === 0 ? "" : `.${pad(us, 6).replace(/0+$/, "")}`;
+}
+
+function infinity_parse(s: string) {
+  if (/^\+?infinity$/i.test(s)) return Infinity;
+  else if (/^-infinity$/i.test(s)) return -Infinity;
+  else return null;
+}
+
+function is_infinity(x: unknown): x is number {
+  return x === Infinity || x === -Infinity;
+}
+
+interface TemporalTypes {
+  PlainDate: Temporal.PlainDate;
+  PlainDateTime: Temporal.PlainDateTime;
+  PlainTime: Temporal.PlainTime;
+  Instant: Temporal.Instant;
+  ZonedDateTime: Temporal.ZonedDateTime;
+  Duration: Temporal.Duration;
+}
+
+function is_temporal<K extends keyof TemporalTypes>(
+  x: unknown,
+  name: K
+): x is TemporalTypes[K] {
+  return typeof Temporal !== "undefined" && x instanceof Temporal[name];
+}
+
+const datetime_re =
+  /^([+-]?\d{4,})-(\d\d)-(\d\d)(?:[ T](\d\d):(\d\d)(?::(\d\d)(?:\.(\d+))?)?)?(?: ?(Z|[+-]\d\d(?::?\d\d(?::?\d\d)?)?))?( BC)?$/i;
+
+const time_re = /^(\d\d):(\d\d)(?::(\d\d)(?:\.(\d+))?)?$/;
+
+// parses both postgres iso output (e.g. '0044-03-15 12:00:00+00 BC') and
+// iso 8601 with expanded years (e.g. '-000043-03-15T12:00:00Z')
+function datetime_parse(s: string) {
+  const m = datetime_re.exec(s.trim());
+  if (m === null) return null;
+  const [, y, mo, d, h = "0", mi = "0", sec = "0", frac, tz, bc] = m;
+  const year = bc ? 1 - Number(y) : Number(y);
+  const days = days_from_civil(year, Number(mo), Number(d));
+  const [cy, cm, cd] = civil_from_days(days);
+  const us = time_us(Number(h), Number(mi), Number(sec), fraction_us(frac));
+  if (cy !== year || cm !== Number(mo) || cd !== Number(d) || us === null)
+    return null;
+  else return { days, us, offset: tz === undefined ? null : offset_parse(tz) };
+}
+
+function time_parse(s: string) {
+  const m = time_re.exec(s.trim());
+  if (m === null) return null;
+  const [, h, mi, sec = "0", frac] = m;
+  return time_us(Number(h), Number(mi), Number(sec), fraction_us(frac));
+}
+
+function time_us(h: number, m: number, s: number, us: number) {
+  const n = ((h * 60 + m) * 60 + s) * 1e6 + us;
+  if (m < 60 && s < 60 && 0 <= n && n <= 86400e6) return n;
+  else return null;
+}
+
+// seconds east of utc
+function offset_parse(tz: string) {
+  if (tz.toUpperCase() === "Z") return 0;
+  const [h, m = "0", s = "0"] = tz.slice(1).match(/\d\d/g)!;
+  const n = (Number(h) * 60 + Number(m)) * 60 + Number(s);
+  return tz[0] === "-" ? -n : n;
+}
+
+function time_format(us: number) {
+  const s = Math.floor(us / 1e6);
+  const t = `${pad(Math.floor(s / 3600))}:${pad(Math.floor(s / 60) % 60)}`;
+  return `${t}:${pad(s % 60)}${fraction_format(us % 1e6)}`;
+}
+
+function date_iso(days: number) {
+  const [y, m, d] = civil_from_days(days);
+  const year =
+    0 <= y && y <= 9999 ? pad(y, 4) : (y < 0 ? "-" : "+") + pad(Math.abs(y), 6);
+  return `${year}-${pad(m)}-${pad(d)}`;
+}
+
+// formats a date or timestamp for postgres, e.g. '0044-03-15 12:00:00+00 BC'
+function datetime_format(days: number, us: number | null, utc = false) {
+  const [y, m, d] = civil_from_days(days);
+  let s = `${pad(y > 0 ? y : 1 - y, 4)}-${pad(m)}-${pad(d)}`;
+  if (us !== null) s += ` ${time_format(us)}${utc ? "+00" : ""}`;
+  return y > 0 ? s : `${s} BC`;
+}
+
+function timestamp_format(us: bigint | number, utc: boolean) {
+  if (us === Infinity) return "infinity";
+  else if (us === -Infinity) return "-infinity";
+  const days = div_floor(BigInt(us), day_us);
+  return datetime_format(Number(days), Number(BigInt(us) - days * day_us), utc);
+}
+
+function date_value(days: number, temporal: boolean) {
+  if (is_infinity(days)) return days;
+  else if (!temporal) return date_iso(days);
+  const [year, month, day] = civil_from_days(days);
+  return Temporal.PlainDate.from({ year, month, day }, { overflow: "reject" });
+}
+
+function date_days(x: unknown) {
+  if (typeof x === "undefined" || x === null) return null;
+  else if (is_infinity(x)) return x;
+  else if (x instanceof Date) {
+    const t = x.getTime(); // utc date
+    if (Number.isFinite(t)) return Math.floor(t / 864e5);
+  } else if (is_temporal(x, "PlainDate") || is_temporal(x, "PlainDateTime")) {
+    return days_from_civil(x.year, x.month, x.day);
+  } else {
+    const s = String(x);
+    const t = infinity_parse(s) ?? datetime_parse(s)?.days;
+    if (typeof t === "number") return t;
+  }
+  throw new SqlTypeError(`invalid date output '${x}'`);
+}
+
+export function date_type(temporal = false): SqlType {
+  return {
+    input(s) {
+      const days = infinity_parse(s) ?? datetime_parse(s)?.days;
+      if (typeof days === "number") return date_value(days, temporal);
+      else throw new SqlTypeError(`invalid date input '${s}'`);
+    },
+    output(x) {
+      const days = date_days(x);
+      if (days === null) return null;
+      else if (days === Infinity) return "infinity";
+      else if (days === -Infinity) return "-infinity";
+      else return datetime_format(days, null);
+    },
+    receive(buf) {
+      // days since postgres epoch
+      const n = ser_decode(i32, buf);
+      if (n === 2147483647) return Infinity;
+      else if (n === -2147483648) return -Infinity;
+      else return date_value(n + pg_epoch_days, temporal);
+    },
+    send(x) {
+      const days = date_days(x);
+      if (days === null) return null;
+      else if (days === Infinity) return ser_encode(i32, 2147483647);
+      else if (days === -Infinity) return ser_encode(i32, -2147483648);
+      else return ser_encode(i32, days - pg_epoch_days);
+    },
+  };
+}
+
+// microseconds since unix epoch
+function timestamp_value(us: bigint | number, utc: boolean, temporal: boolean) {
+  if (is_infinity(us)) return us;
+  else if (temporal && utc)
+    return Temporal.Instant.fromEpochNanoseconds(BigInt(us) * 1000n);
+
+  if (!temporal) {
+    const t = new Date(Number(div_floor(BigInt(us), 1000n)));
+    if (Number.isFinite(t.getTime())) return t;
+    else throw new SqlTypeError(`invalid timestamp input '${us}'`);
+  }
+
+  const days = div_floor(BigInt(us), day_us);
+  const [year, month, day] = civil_from_days(Number(days));
+  let n = Number(BigInt(us) - days * day_us);
+  const microsecond = n % 1000;
+  const millisecond = (n = Math.floor(n / 1000)) % 1000;
+  const second = (n = Math.floor(n / 1000)) % 60;
+  const minute = (n = Math.floor(n / 60)) % 60;
+  const hour = Math.floor(n / 60);
+  return Temporal.PlainDateTime.from(
+    { year, month, day, hour, minute, second, millisecond, microsecond },
+    { overflow: "reject" }
+  );
+}
+
+function timestamp_us(x: unknown, utc: boolean) {
+  if (typeof x === "undefined" || x === null) return null;
+  else if (is_infinity(x)) return x;
+  else if (x instanceof Date) {
+    const t = x.getTime(); // timestamp wall clock time in utc
+    if (Number.isFinite(t)) return BigInt(t) * 1000n;
+  } else if (typeof x === "number" || typeof x === "bigint") {
+    const t = Number(x) * 1e6; // unix epoch seconds
+    if (Number.isFinite(t)) return BigInt(Math.round(t));
+  } else if (
+    utc &&
+    (is_temporal(x, "Instant") || is_temporal(x, "ZonedDateTime"))
+  ) {
+    return div_floor(x.epochNanoseconds, 1000n);
+  } else if (!utc && is_temporal(x, "PlainDateTime")) {
+    const days = days_from_civil(x.year, x.month, x.day);
+    const us = time_us(x.hour, x.minute, x.second, 0)!;
+    return (
+      BigInt(days) * day_us + BigInt(us + x.millisecond * 1e3 + x.microsecond)
+    );
+  } else {
+    const s = String(x);
+    const inf = infinity_parse(s);
+    if (inf !== null) return inf;
+    const t = datetime_parse(s);
+    if (t !== null && (!utc || t.offset !== null)) {
+      const us = BigInt(t.days) * day_us + BigInt(t.us);
+      return utc ? us - BigInt(t.offset!) * 1000000n : us;
+    } else if (utc) {
+      // let Date parse anything else, e.g. local time
+      const d = new Date(s).getTime();
+      if (Number.isFinite(d)) return BigInt(d) * 1000n;
+    }
+  }
+  throw new SqlTypeError(
+    `invalid ${utc ? "timestamptz" : "timestamp"} output '${x}'`
+  );
+}
+
+function timestamp_codec(utc: boolean, temporal: boolean): SqlType {
+  const name = utc ? "timestamptz" : "timestamp";
+  return {
+    input(s) {
+      const inf = infinity_parse(s);
+      if (inf !== null) return inf;
+      const t = datetime_parse(s);
+      if (t === null || (utc && t.offset === null))
+        throw new SqlTypeError(`invalid ${name} input '${s}'`);
+      let us = BigInt(t.days) * day_us + BigInt(t.us);
+      if (utc) us -= BigInt(t.offset!) * 1000000n;
+      return timestamp_value(us, utc, temporal);
+    },
+    output(x) {
+      const us = timestamp_us(x, utc);
+      return us === null ? null : timestamp_format(us, utc);
+    },
+    receive(buf) {
+      // microseconds since postgres epoch
+      const n = ser_decode(i64, buf);
+      if (n === 9223372036854775807n) return Infinity;
+      else if (n === -9223372036854775808n) return -Infinity;
+      else return timestamp_value(n + pg_epoch_us, utc, temporal);
+    },
+    send(x) {
+      const us = timestamp_us(x, utc);
+      if (us === null) return null;
+      else if (us === Infinity) return ser_encode(i64, 9223372036854775807n);
+      else if (us === -Infinity) return ser_encode(i64, -9223372036854775808n);
+      else return ser_encode(i64, BigInt(us) - pg_epoch_us);
+    },
+  };
+}
+
+export function timestamp_type(temporal = false): SqlType {
+  return timestamp_codec(false, temporal);
+}
+
+export function timestamptz_type(temporal = false): SqlType {
+  return timestamp_codec(true, temporal);
+}
+
+function time_value(us: number, temporal: boolean) {
+  if (!temporal) return time_format(us);
+  const microsecond = us % 1000;
+  const millisecond = (us = Math.floor(us / 1000)) % 1000;
+  const second = (us = Math.floor(us / 1000)) % 60;
+  const minute = (us = Math.floor(us / 60)) % 60;
+  const hour = Math.floor(us / 60) % 24; // 24:00:00 wraps to midnight
+  return Temporal.PlainTime.from({
+    hour,
+    minute,
+    second,
+    millisecond,
+    microsecond,
+  });
+}
+
+function time_value_us(x: unknown) {
+  if (typeof x === "undefined" || x === null) return null;
+  else if (is_temporal(x, "PlainTime") || is_temporal(x, "PlainDateTime")) {
+    const us = time_us(x.hour, x.minute, x.second, 0)!;
+    return us + x.millisecond * 1e3 + x.microsecond;
+  } else {
+    const us = time_parse(String(x));
+    if (us !== null) return us;
+    else throw new SqlTypeError(`invalid time output '${x}'`);
+  }
+}
+
+export function time_type(temporal = false): SqlType {
+  return {
+    input(s) {
+      const us = time_parse(s);
+      if (us !== null) return time_value(us, temporal);
+      else throw new SqlTypeError(`invalid time input '${s}'`);
+    },
+    output(x) {
+      const us = time_value_us(x);
+      return us === null ? null : time_format(us);
+    },
+    receive(buf) {
+      // microseconds since midnight
+      return time_value(Number(ser_decode(i64, buf)), temporal);
+    },
+    send(x) {
+      const us = time_value_us(x);
+      return us === null ? null : ser_encode(i64, BigInt(us));
+    },
+  };
+}
+
+// timetz has no js equivalent, so it is always returned as a string
+export const timetz: SqlType = {
   input(s) {
-    const t = Date.parse(s);
-    if (!Number.isNaN(t)) return new Date(t);
-    else throw new SqlTypeError(`invalid timestamptz input '${s}'`);
+    return s;
   },
   output(x) {
-    let t: Date;
     if (typeof x === "undefined" || x === null) return null;
-    else if (x instanceof Date) t = x;
-    else if (typeof x === "number" || typeof x === "bigint")
-      t = new Date(Number(x) * 1000); // unix epoch seconds
-    else t = new Date(String(x));
-    if (Number.isFinite(t.getTime())) return t.toISOString();
-    else throw new SqlTypeError(`invalid timestamptz output '${x}'`);
+    const s = String(x).trim();
+    const m = /^(.*?)(Z|[+-]\d\d(?::?\d\d(?::?\d\d)?)?)$/i.exec(s);
+    if (m !== null && time_parse(m[1]) !== null) return s;
+    else throw new SqlTypeError(`invalid timetz output '${x}'`);
   },
 };
 
+interface Interval {
+  months: number;
+  days: number;
+  us: bigint;
+}
+
+const interval_bin = object({ us: i64, days: i32, months: i32 });
+const interval_inf = {
+  months: 2147483647,
+  days: 2147483647,
+  us: 9223372036854775807n,
+};
+const interval_neg_inf = {
+  months: -2147483648,
+  days: -2147483648,
+  us: -9223372036854775808n,
+};
+
+const interval_re =
+  /^(?:([+-]?\d+) years? ?)?(?:([+-]?\d+) mons? ?)?(?:([+-]?\d+) days? ?)?(?:([+-]?)(\d+):(\d\d):(\d\d)(?:\.(\d+))?)?$/;
+
+const interval_iso_re =
+  /^([+-])?P(?:([+-]?\d+)Y)?(?:([+-]?\d+)M)?(?:([+-]?\d+)W)?(?:([+-]?\d+)D)?(?:T(?:([+-]?\d+)H)?(?:([+-]?\d+)M)?(?:([+-]?)(\d+)(?:[.,](\d+))?S)?)?$/i;
+
+// parses both postgres style (e.g. '1 year 2 mons -3 days +04:05:06.7') and
+// iso 8601 (e.g. 'P1Y2M-3DT4H5M6.7S') intervals
+function interval_parse(s: string): Interval | null {
+  let m = interval_re.exec(s.trim());
+  if (m !== null && s.trim() !== "") {
+    const [, y = 0, mo = 0, d = 0, sign, h = 0, mi = 0, sec = 0, frac] = m;
+    const us =
+      ((BigInt(h) * 60n + BigInt(mi)) * 60n + BigInt(sec)) * 1000000n +
+      BigInt(fraction_us(frac));
+    return {
+      months: Number(y) * 12 + Number(mo),
+      days: Number(d),
+      us: sign === "-" ? -us : us,
+    };
+  } else if ((m = interval_iso_re.exec(s.trim())) !== null) {
+    const [, neg, y = 0, mo = 0, w = 0, d = 0, h = 0, mi = 0] = m;
+    const [sign, sec = 0, frac] = m.slice(8);
+    let us = BigInt(sec) * 1000000n + BigInt(fraction_us(frac));
+    us = (BigInt(h) * 60n + BigInt(mi)) * 60000000n + (sign ? -us : us);
+    const n = neg === "-" ? -1 : 1;
+    return {
+      months: n * (Number(y) * 12 + Number(mo)),
+      days: n * (Number(w) * 7 + Number(d)),
+      us: BigInt(n) * us,
+    };
+  } else return null;
+}
+
+function interval_iso({ months, days, us }: Interval) {
+  const y = Math.trunc(months / 12);
+  const mo = months % 12;
+  const h = us / 3600000000n;
+  const mi = (us / 60000000n) % 60n;
+  const s = us % 60000000n;
+  let d = "";
+  let t = "";
+  if (y) d += `${y}Y`;
+  if (mo) d += `${mo}M`;
+  if (days) d += `${days}D`;
+  if (h) t += `${h}H`;
+  if (mi) t += `${mi}M`;
+  if (s) {
+    const abs = s < 0n ? -s : s;
+    const frac = fraction_format(Number(abs % 1000000n));
+    t += `${s < 0n ? "-" : ""}${abs / 1000000n}${frac}S`;
+  }
+  return d || t ? `P${d}${t ? `T${t}` : ""}` : `PT0S`;
+}
+
+function interval_value(iv: Interval, temporal: boolean) {
+  if (!temporal) return interval_iso(iv);
+  const { months, days, us } = iv;
+
+  // postgres keeps months, days and time separately and each may have its own
+  // sign, but a Duration must have a single sign. they cannot be normalised
+  // without a reference date, since months and days vary in length
+  const signs = [
+    Math.sign(months),
+    Math.sign(days),
+    Number(us > 0n) - Number(us < 0n),
+  ];
+  if (signs.includes(1) && signs.includes(-1)) {
+    throw new SqlTypeError(
+      `interval '${interval_iso(iv)}' has mixed signs and cannot be represented as a Temporal.Duration (use justify_interval() or cast it to text)`
+    );
+  }
+
+  const seconds = us / 1000000n;
+  const micros = Number(us % 1000000n);
+  return Temporal.Duration.from({
+    years: Math.trunc(months / 12),
+    months: months % 12,
+    days,
+    hours: Number(seconds / 3600n),
+    minutes: Number((seconds / 60n) % 60n),
+    seconds: Number(seconds % 60n),
+    milliseconds: Math.trunc(micros / 1000),
+    microseconds: micros % 1000,
+  });
+}
+
+function interval_value_iv(x: unknown): Interval | number | null {
+  if (typeof x === "undefined" || x === null) return null;
+  else if (is_infinity(x)) return x;
+  else if (is_temporal(x, "Duration")) {
+    const s = BigInt(x.hours * 3600 + x.minutes * 60 + x.seconds);
+    return {
+      months: x.years * 12 + x.months,
+      days: x.weeks * 7 + x.days,
+      us:
+        s * 1000000n +
+        BigInt(x.milliseconds * 1000 + x.microseconds) +
+        BigInt(Math.trunc(x.nanoseconds / 1000)),
+    };
+  } else {
+    const iv = infinity_parse(String(x)) ?? interval_parse(String(x));
+    if (iv !== null) return iv;
+    else throw new SqlTypeError(`invalid interval output '${x}'`);
+  }
+}
+
+export function interval_type(temporal = false): SqlType {
+  return {
+    input(s) {
+      const iv = infinity_parse(s) ?? interval_parse(s);
+      if (iv === null) throw new SqlTypeError(`invalid interval input '${s}'`);
+      else if (typeof iv === "number") return iv;
+      else return interval_value(iv, temporal);
+    },
+    output(x) {
+      const iv = interval_value_iv(x);
+      if (iv === null) return null;
+      else if (iv === Infinity) return "infinity";
+      else if (iv === -Infinity) return "-infinity";
+      else return interval_iso(iv as Interval);
+    },
+    receive(buf) {
+      const { us, days, months } = ser_decode(interval_bin, buf);
+      if (months === 2147483647) return Infinity;
+      else if (months === -2147483648) return -Infinity;
+      else return interval_value({ months, days, us }, temporal);
+    },
+    send(x) {
+      const iv = interval_value_iv(x);
+      if (iv === null) return null;
+      else if (iv === Infinity) return ser_encode(interval_bin, interval_inf);
+      else if (iv === -Infinity)
+        return ser_encode(interval_bin, interval_neg_inf);
+      else return ser_encode(interval_bin, iv as Interval);
+    },
+  };
+}
+
+export const date = date_type();
+export const timestamp = timestamp_type();
+export const timestamptz = timestamptz_type();
+export const time = time_type();
+export const interval = interval_type();
+
 export const bytea: SqlType = {
   input(s) {
     if (s.startsWith(`\\x`)) return from_hex(s.slice(2));
     else throw new SqlTypeError(`invalid bytea input '${s}'`);
   },
   output(x) {
-    let buf: Uint8Array;
-    if (typeof x === "undefined" || x === null) return null;
-    else if (typeof x === "string") buf = to_utf8(x);
-    else if (x instanceof Uint8Array) buf = x;
-    else if (x instanceof ArrayBuffer || x instanceof SharedArrayBuffer)
-      buf = new Uint8Array(x);
-    else if (Array.isArray(x) || x instanceof Array) buf = Uint8Array.from(x);
-    else throw new SqlTypeError(`invalid bytea output '${x}'`);
-    return `\\x` + to_hex(buf);
+    const buf = bytea_buf(x);
+    return buf === null ? null : `\\x` + to_hex(buf);
+  },
+  receive(buf) {
+    return buf.slice();
+  },
+  send(x) {
+    return bytea_buf(x);
   },
 };
 
+function bytea_buf(x: unknown) {
+  if (typeof x === "undefined" || x === null) return null;
+  else if (typeof x === "string") return to_utf8(x);
+  else if (x instanceof Uint8Array) return x;
+  else if (x instanceof ArrayBuffer || x instanceof SharedArrayBuffer)
+    return new Uint8Array(x);
+  else if (Array.isArray(x) || x instanceof Array) return Uint8Array.from(x);
+  else throw new SqlTypeError(`invalid bytea output '${x}'`);
+}
+
 export const json: SqlType = {
   input(s) {
     return JSON.parse(s);
@@ -359,6 +1000,799 @@ export const json: SqlType = {
   },
 };
 
+export const jsonb: SqlType = {
+  input: json.input,
+  output: json.output,
+  receive(buf) {
+    // https://www.postgresql.org/docs/current/datatype-json.html
+    if (buf[0] === 1) return JSON.parse(from_utf8(buf.subarray(1)));
+    else throw new SqlTypeError(`invalid jsonb version ${buf[0]}`);
+  },
+  send(x) {
+    const s = json.output(x);
+    if (s === null) return null;
+    const buf = to_utf8(s);
+    const res = new Uint8Array(buf.length + 1);
+    return (res[0] = 1), res.set(buf, 1), res;
+  },
+};
+
+export const uuid: SqlType = {
+  input(s) {
+    return s;
+  },
+  output(x) {
+    if (typeof x === "undefined" || x === null) return null;
+    const s = String(x);
+    const m = /^\{?([0-9a-f]{4}(?:-?[0-9a-f]{4}){7})\}?$/i.exec(s);
+    if (m === null) throw new SqlTypeError(`invalid uuid output '${x}'`);
+    const h = m[1].replaceAll("-", "").toLowerCase();
+    return `${h.slice(0, 8)}-${h.slice(8, 12)}-${h.slice(12, 16)}-${h.slice(16, 20)}-${h.slice(20)}`;
+  },
+  receive(buf) {
+    const h = to_hex(buf);
+    return `${h.slice(0, 8)}-${h.slice(8, 12)}-${h.slice(12, 16)}-${h.slice(16, 20)}-${h.slice(20)}`;
+  },
+  send(x) {
+    const s = uuid.output(x);
+    return s === null ? null : from_hex(s.replaceAll("-", ""));
+  },
+};
+
+// https://www.postgresql.org/docs/current/datatype-net-types.html
+export interface Inet {
+  address: string;
+  netmask: number;
+}
+
+function is_ipv4(s: string) {
+  const m = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/.exec(s);
+  return m !== null && m.slice(1).every((n) => Number(n) <= 255);
+}
+
+function is_ipv6(s: string) {
+  // embedded ipv4 occupies the last two groups
+  const v4 = /(?<=^|:)[\d.]+$/.exec(s);
+  if (v4 !== null) {
+    if (!is_ipv4(v4[0])) return false;
+    s = s.slice(0, v4.index) + "0:0";
+  }
+  const parts = s.split("::");
+  const groups = parts.flatMap((p) => (p === "" ? [] : p.split(":")));
+  if (parts.length > 2 || !groups.every((g) => /^[0-9a-f]{1,4}$/i.test(g)))
+    return false;
+  else return parts.length === 2 ? groups.length < 8 : groups.length === 8;
+}
+
+function inet_type(name: string): SqlType {
+  return {
+    input(s) {
+      const i = s.indexOf("/");
+      const address = i === -1 ? s : s.slice(0, i);
+      const netmask =
+        i === -1 ? (address.includes(":") ? 128 : 32) : Number(s.slice(i + 1));
+      return { address, netmask } satisfies Inet;
+    },
+    output(x) {
+      let address: string;
+      let netmask: number | null = null;
+      if (typeof x === "undefined" || x === null) return null;
+      else if (typeof x === "object" && "address" in x) {
+        address = String(x.address);
+        if ("netmask" in x && x.netmask !== undefined && x.netmask !== null)
+          netmask = Number(x.netmask);
+      } else {
+        const s = String(x);
+        const i = s.indexOf("/");
+        address = i === -1 ? s : s.slice(0, i);
+        if (i !== -1) netmask = Number(s.slice(i + 1));
+      }
+      const bits = is_ipv4(address) ? 32 : is_ipv6(address) ? 128 : 0;
+      if (
+        bits !== 0 &&
+        (netmask === null ||
+          (Number.isInteger(netmask) && 0 <= netmask && netmask <= bits))
+      ) {
+        return netmask === null ? address : `${address}/${netmask}`;
+      } else throw new SqlTypeError(`invalid ${name} output '${x}'`);
+    },
+  };
+}
+
+export const inet = inet_type("inet");
+export const cidr = inet_type("cidr");
+
+function macaddr_type(name: string, lengths: number[]): SqlType {
+  return {
+    input(s) {
+      return s;
+    },
+    output(x) {
+      if (typeof x === "undefined" || x === null) return null;
+      const h = String(x).replace(/[:.-]/g, "").toLowerCase();
+      if (/^[0-9a-f]*$/.test(h) && lengths.includes(h.length))
+        return h.match(/../g)!.join(":");
+      else throw new SqlTypeError(`invalid ${name} output '${x}'`);
+    },
+  };
+}
+
+export const macaddr = macaddr_type("macaddr", [12]);
+export const macaddr8 = macaddr_type("macaddr8", [12, 16]);
+
+// money is a bigint of minor units (e.g. cents), as a float would lose
+// precision. its text form depends on lc_monetary, so money is sent and
+// received in binary where possible, and the text codecs assume the given
+// number of fraction digits, e.g. `types: { 790: money_type(0) }` for yen
+export function money_type(frac_digits = 2): SqlType {
+  const scale = 10n ** BigInt(frac_digits);
+
+  const minor_units = (x: unknown) => {
+    if (typeof x === "bigint") return x;
+    else if (Number.isSafeInteger(x)) return BigInt(x as number);
+    else
+      throw new SqlTypeError(
+        `invalid money output '${x}' (expected integer minor units)`
+      );
+  };
+
+  return {
+    input(s) {
+      // the sign is outside the digits, e.g. '-$1,234.50' or '($1,234.50)',
+      // and the last group of digits is the fraction if it has frac_digits
+      const start = s.search(/\d/);
+      const end = s.search(/\d\D*$/) + 1;
+      if (start === -1) throw new SqlTypeError(`invalid money input '${s}'`);
+      const groups = s.slice(start, end).split(/\D+/);
+      let frac = "";
+      if (groups.length > 1 && groups[groups.length - 1].length === frac_digits)
+        frac = groups.pop()!;
+      const n = BigInt(groups.join("")) * scale + BigInt(frac || 0);
+      return /[-(]/.test(s.slice(0, start) + s.slice(end)) ? -n : n;
+    },
+    output(x) {
+      if (typeof x === "undefined" || x === null) return null;
+      const n = minor_units(x);
+      const a = n < 0n ? -n : n;
+      const frac = (a % scale).toString().padStart(frac_digits, "0");
+      return `${n < 0n ? "-" : ""}${a / scale}${frac_digits ? `.${frac}` : ""}`;
+    },
+    receive(buf) {
+      return ser_decode(i64, buf);
+    },
+    send(x) {
+      if (typeof x === "undefined" || x === null) return null;
+      else return ser_encode(i64, minor_units(x));
+    },
+  };
+}
+
+export const money = money_type();
+
+// https://github.com/postgres/postgres/blob/master/src/backend/utils/adt/arrayfuncs.c (array_send)
+// money arrays are also sent and received in binary if the element type is,
+// so that amounts do not go through the lc_monetary dependent text format
+export function money_array_type(type: SqlType): SqlType {
+  const { input, output } = array_type(type);
+  const { receive, send } = type;
+  if (receive === undefined || send === undefined) return { input, output };
+
+  return {
+    input,
+    output,
+    receive(buf) {
+      const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+      const ndim = view.getInt32(0);
+      const dims: number[] = [];
+      let i = 12; // ndim, has_null, elem_oid
+      for (let d = 0; d < ndim; d++, i += 8) dims.push(view.getInt32(i));
+
+      const read = (d: number): unknown[] => {
+        const xs: unknown[] = [];
+        for (let k = 0; k < dims[d]; k++) {
+          if (d + 1 < ndim) xs.push(read(d + 1));
+          else {
+            const n = view.getInt32(i);
+            i += 4;
+            xs.push(n === -1 ? null : receive(buf.subarray(i, (i += n))));
+          }
+        }
+        return xs;
+      };
+
+      return ndim === 0 ? [] : read(0);
+    },
+    send(x) {
+      if (typeof x === "undefined" || x === null) return null;
+      const err = () => new SqlTypeError(`invalid array output '${x}'`);
+      if (!Array.isArray(x)) throw err();
+
+      const dims: number[] = [];
+      for (let y: unknown = x; Array.isArray(y); y = y[0]) dims.push(y.length);
+      if (dims.includes(0)) dims.length = 0; // empty array
+
+      const elems: (Uint8Array | null)[] = [];
+      const flatten = (xs: unknown, d: number) => {
+        if (d === dims.length) {
+          if (Array.isArray(xs)) throw err();
+          else return void elems.push(send(xs));
+        } else if (!Array.isArray(xs) || xs.length !== dims[d]) throw err();
+        for (const y of xs) flatten(y, d + 1);
+      };
+      if (dims.length !== 0) flatten(x, 0);
+
+      let size = 12 + dims.length * 8;
+      for (const e of elems) size += 4 + (e?.length ?? 0);
+      const buf = new Uint8Array(size);
+      const view = new DataView(buf.buffer);
+      view.setInt32(0, dims.length);
+      view.setInt32(4, elems.includes(null) ? 1 : 0);
+      view.setInt32(8, 790); // money
+      let i = 12;
+      for (const n of dims)
+        view.setInt32(i, n), view.setInt32(i + 4, 1), (i += 8);
+      for (const e of elems) {
+        view.setInt32(i, e?.length ?? -1), (i += 4);
+        if (e !== null) buf.set(e, i), (i += e.length);
+      }
+      return buf;
+    },
+  };
+}
+
+function bit_type(name: string): SqlType {
+  return {
+    input(s) {
+      return s;
+    },
+    output(x) {
+      if (typeof x === "undefined" || x === null) return null;
+      else if (Array.isArray(x))
+        return x.map((b) => (b === true || b === 1 ? "1" : "0")).join("");
+      const s = String(x);
+      if (/^(?:[bB]?[01]*|[xX][0-9a-fA-F]*)$/.test(s)) return s;
+      else throw new SqlTypeError(`invalid ${name} output '${x}'`);
+    },
+  };
+}
+
+export const bit = bit_type("bit");
+export const varbit = bit_type("varbit");
+
+// well-formedness depends on the server's xmloption, so this only makes sure
+// that objects are not sent as '[object Object]'
+export const xml: SqlType = {
+  input(s) {
+    return s;
+  },
+  output(x) {
+    if (typeof x === "undefined" || x === null) return null;
+    else if (typeof x === "string") return x;
+    else throw new SqlTypeError(`invalid xml output '${x}'`);
+  },
+};
+
+// https://www.postgresql.org/docs/current/datatype-textsearch.html#DATATYPE-TSVECTOR
+const lexeme_src = String.raw`(?:'(?:[^'\\]|''|\\.)*'|(?:[^\s'\\:]|\\.)+)(?::\d+[A-Da-d]?(?:,\d+[A-Da-d]?)*)?`;
+const tsvector_re = new RegExp(
+  String.raw`^\s*(?:${lexeme_src}(?:\s+${lexeme_src})*)?\s*$`
+);
+
+export const tsvector: SqlType = {
+  input(s) {
+    return s;
+  },
+  output(x) {
+    if (typeof x === "undefined" || x === null) return null;
+    const s = String(x);
+    if (tsvector_re.test(s)) return s;
+    else throw new SqlTypeError(`invalid tsvector output '${x}'`);
+  },
+};
+
+// https://www.postgresql.org/docs/current/datatype-oid.html
+const ident_src = String.raw`(?:"(?:[^"]|"")+"|[A-Za-z_\x80-\uffff][\w$\x80-\uffff]*)`;
+const regclass_re = new RegExp(
+  String.raw`^\s*${ident_src}(?:\s*\.\s*${ident_src}){0,2}\s*$`
+);
+
+// a relation name, which may be qualified, or its oid
+export const regclass: SqlType = {
+  input(s) {
+    return s;
+  },
+  output(x) {
+    if (typeof x === "undefined" || x === null) return null;
+    else if (Number.isSafeInteger(x) && (x as number) >= 0) return String(x);
+    const s = String(x);
+    if (regclass_re.test(s) || /^\d+$/.test(s)) return s;
+    else throw new SqlTypeError(`invalid regclass output '${x}'`);
+  },
+};
+
+// https://www.postgresql.org/docs/current/datatype-geometric.html
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Line {
+  a: number;
+  b: number;
+  c: number;
+}
+
+export interface Path {
+  closed: boolean;
+  points: Point[];
+}
+
+export interface Circle {
+  center: Point;
+  radius: number;
+}
+
+const float_src = String.raw`[+-]?(?:(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?|infinity|nan)`;
+const point_src = String.raw`\(${float_src},${float_src}\)`;
+const float_re = new RegExp(float_src, "gi");
+
+// parses the numbers in s if it matches the shape of re, ignoring whitespace
+function geometry_parse(name: string, s: string, re: RegExp) {
+  const t = s.replace(/\s/g, "");
+  if (re.test(t)) return { t, xs: t.match(float_re)!.map(Number) };
+  else throw new SqlTypeError(`invalid ${name} input '${s}'`);
+}
+
+function points_of(xs: number[]) {
+  const ps: Point[] = [];
+  for (let i = 0; i < xs.length; i += 2) ps.push({ x: xs[i], y: xs[i + 1] });
+  return ps;
+}
+
+function point_format(name: string, p: unknown) {
+  let x: unknown, y: unknown;
+  if (Array.isArray(p)) [x, y] = p;
+  else if (typeof p === "object" && p !== null && "x" in p && "y" in p)
+    ({ x, y } = p);
+  if (typeof x === "number" && typeof y === "number") return `(${x},${y})`;
+  else throw new SqlTypeError(`invalid ${name} output '${p}'`);
+}
+
+function points_format(name: string, ps: unknown) {
+  if (Array.isArray(ps) && ps.length !== 0)
+    return ps.map((p) => point_format(name, p)).join(",");
+  else throw new SqlTypeError(`invalid ${name} output '${ps}'`);
+}
+
+function geometry_type(
+  name: string,
+  re: RegExp,
+  input: (xs: number[], t: string) => unknown,
+  output: (x: object) => string
+): SqlType {
+  return {
+    input(s) {
+      const { xs, t } = geometry_parse(name, s, re);
+      return input(xs, t);
+    },
+    output(x) {
+      if (typeof x === "undefined" || x === null) return null;
+      else if (typeof x === "object") return output(x);
+      else return geometry_parse(name, String(x), re), String(x);
+    },
+  };
+}
+
+export const point = geometry_type(
+  "point",
+  new RegExp(`^${point_src}$`, "i"),
+  ([x, y]) => ({ x, y }) satisfies Point,
+  (p) => point_format("point", p)
+);
+
+export const line = geometry_type(
+  "line",
+  new RegExp(`^\\{${float_src},${float_src},${float_src}\\}$`, "i"),
+  ([a, b, c]) => ({ a, b, c }) satisfies Line,
+  (l) => {
+    if ("a" in l && "b" in l && "c" in l) {
+      const { a, b, c } = l;
+      if (
+        typeof a === "number" &&
+        typeof b === "number" &&
+        typeof c === "number"
+      )
+        return `{${a},${b},${c}}`;
+    }
+    throw new SqlTypeError(`invalid line output '${l}'`);
+  }
+);
+
+export const lseg = geometry_type(
+  "lseg",
+  new RegExp(`^\\[${point_src},${point_src}\\]$`, "i"),
+  (xs) => points_of(xs),
+  (ps) => {
+    if (Array.isArray(ps) && ps.length === 2)
+      return `[${points_format("lseg", ps)}]`;
+    else throw new SqlTypeError(`invalid lseg output '${ps}'`);
+  }
+);
+
+export const box = geometry_type(
+  "box",
+  new RegExp(`^${point_src},${point_src}$`, "i"),
+  (xs) => points_of(xs),
+  (ps) => {
+    if (Array.isArray(ps) && ps.length === 2) return points_format("box", ps);
+    else throw new SqlTypeError(`invalid box output '${ps}'`);
+  }
+);
+
+export const path = geometry_type(
+  "path",
+  new RegExp(
+    `^(?:\\(${point_src}(?:,${point_src})*\\)|\\[${point_src}(?:,${point_src})*\\])$`,
+    "i"
+  ),
+  (xs, t) => ({ closed: t[0] === "(", points: points_of(xs) }) satisfies Path,
+  (p) => {
+    if ("points" in p) {
+      const s = points_format("path", p.points);
+      return "closed" in p && p.closed ? `(${s})` : `[${s}]`;
+    } else throw new SqlTypeError(`invalid path output '${p}'`);
+  }
+);
+
+export const polygon = geometry_type(
+  "polygon",
+  new RegExp(`^\\(${point_src}(?:,${point_src})*\\)$`, "i"),
+  (xs) => points_of(xs),
+  (ps) => `(${points_format("polygon", ps)})`
+);
+
+export const circle = geometry_type(
+  "circle",
+  new RegExp(`^<${point_src},${float_src}>$`, "i"),
+  ([x, y, radius]) => ({ center: { x, y }, radius }) satisfies Circle,
+  (c) => {
+    if ("center" in c && "radius" in c && typeof c.radius === "number")
+      return `<${point_format("circle", c.center)},${c.radius}>`;
+    else throw new SqlTypeError(`invalid circle output '${c}'`);
+  }
+);
+
+// https://www.postgresql.org/docs/current/arrays.html#ARRAYS-IO
+// nested js arrays are formatted as multidimensional arrays
+export function array_type(type: SqlType, delim = ","): SqlType {
+  return {
+    input(s) {
+      return array_parse(s, type, delim);
+    },
+    output(x) {
+      if (typeof x === "undefined" || x === null) return null;
+      else if (typeof x === "string")
+        return x; // array literal
+      else if (Array.isArray(x)) return array_format(x, type, delim);
+      else throw new SqlTypeError(`invalid array output '${x}'`);
+    },
+  };
+}
+
+function array_parse(s: string, type: SqlType, delim: string) {
+  const err = () => new SqlTypeError(`invalid array input '${s}'`);
+  const n = s.length;
+  let i = 0;
+
+  const skip_ws = () => {
+    while (i < n && is_array_ws(s[i])) i++;
+  };
+
+  const parse = (): unknown[] => {
+    if ((skip_ws(), s[i++]) !== "{") throw err();
+    const xs: unknown[] = [];
+    if ((skip_ws(), s[i]) === "}") return i++, xs;
+
+    for (;;) {
+      skip_ws();
+      if (s[i] === "{") {
+        xs.push(parse());
+      } else if (s[i] === `"`) {
+        let v = "";
+        for (i++; s[i] !== `"`; i++) {
+          if (i >= n) throw err();
+          else if (s[i] === "\\") v += s[++i] ?? "";
+          else v += s[i];
+        }
+        i++, xs.push(type.input(v));
+      } else {
+        // unquoted elements are trimmed, but not where the whitespace is escaped
+        let v = "";
+        let end = 0;
+        for (; i < n && s[i] !== delim && s[i] !== "}"; i++) {
+          if (s[i] === "\\") (v += s[++i] ?? ""), (end = v.length);
+          else if (is_array_ws(s[i])) v += s[i];
+          else (v += s[i]), (end = v.length);
+        }
+        v = v.slice(0, end).trimStart();
+        if (v === "") throw err();
+        xs.push(v.toUpperCase() === "NULL" ? null : type.input(v));
+      }
+
+      skip_ws();
+      const c = s[i++];
+      if (c === "}") return xs;
+      else if (c !== delim) throw err();
+    }
+  };
+
+  // skip optional dimension decoration, e.g. '[0:2]={1,2,3}'
+  if ((skip_ws(), s[i]) === "[") {
+    i = s.indexOf("=", i) + 1;
+    if (i === 0) throw err();
+  }
+
+  const xs = parse();
+  if ((skip_ws(), i) !== n) throw err();
+  return xs;
+}
+
+function array_format(xs: unknown[], type: SqlType, delim: string): string {
+  return `{${xs
+    .map((x) => {
+      if (Array.isArray(x)) return array_format(x, type, delim);
+      const s = type.output(x);
+      if (s === null) return "NULL";
+      else if (
+        s === "" ||
+        s.toUpperCase() === "NULL" ||
+        s.includes(delim) ||
+        /[{}"\\\s]/.test(s)
+      )
+        return `"${s.replace(/["\\]/g, "\\$&")}"`;
+      else return s;
+    })
+    .join(delim)}}`;
+}
+
+function is_array_ws(c: string) {
+  return (
+    c === " " ||
+    c === "\t" ||
+    c === "\n" ||
+    c === "\r" ||
+    c === "\v" ||
+    c === "\f"
+  );
+}
+
+// https://www.postgresql.org/docs/current/datatype-enum.html
+// enum labels are loaded once when connecting
+export function enum_type(labels: readonly string[]): SqlType {
+  return {
+    input(s) {
+      return s;
+    },
+    output(x) {
+      if (typeof x === "undefined" || x === null) return null;
+      const s = String(x);
+      if (labels.includes(s)) return s;
+      else throw new SqlTypeError(`invalid enum output '${x}'`);
+    },
+  };
+}
+
+// https://www.postgresql.org/docs/current/rangetypes.html#RANGETYPES-IO
+export interface Range<T = unknown> {
+  // null bounds are unbounded
+  lower: T | null;
+  upper: T | null;
+  lower_inc: boolean;
+  upper_inc: boolean;
+  empty: boolean;
+}
+
+export function range_type(type: SqlType): SqlType {
+  return {
+    input(s) {
+      const [range, i] = range_parse(s, 0, type);
+      if (i === s.length) return range;
+      else throw new SqlTypeError(`invalid range input '${s}'`);
+    },
+    output(x) {
+      if (typeof x === "undefined" || x === null) return null;
+      else if (typeof x === "string")
+        return range_parse(x, 0, type), x; // range literal
+      else return range_format(x, type);
+    },
+  };
+}
+
+export function multirange_type(type: SqlType): SqlType {
+  return {
+    input(s) {
+      const err = () => new SqlTypeError(`invalid multirange input '${s}'`);
+      const ranges: Range[] = [];
+      let i = skip_array_ws(s, 0);
+      if (s[i++] !== "{") throw err();
+      if (s[(i = skip_array_ws(s, i))] === "}") i++;
+      else {
+        for (let range; ; ) {
+          [range, i] = range_parse(s, i, type);
+          ranges.push(range);
+          const c = s[(i = skip_array_ws(s, i))];
+          i++;
+          if (c === "}") break;
+          else if (c !== ",") throw err();
+        }
+      }
+      if (skip_array_ws(s, i) === s.length) return ranges;
+      else throw err();
+    },
+    output(x) {
+      if (typeof x === "undefined" || x === null) return null;
+      else if (Array.isArray(x))
+        return `{${x.map((r) => range_format(r, type)).join(",")}}`;
+      else throw new SqlTypeError(`invalid multirange output '${x}'`);
+    },
+  };
+}
+
+// parses a range starting at s[i] and returns it with the index after it
+function range_parse(s: string, i: number, type: SqlType): [Range, number] {
+  const err = () => new SqlTypeError(`invalid range input '${s}'`);
+  i = skip_array_ws(s, i);
+  if (s.slice(i, i + 5).toLowerCase() === "empty") {
+    const range = {
+      lower: null,
+      upper: null,
+      lower_inc: false,
+      upper_inc: false,
+      empty: true,
+    };
+    return [range, skip_array_ws(s, i + 5)];
+  }
+
+  const bound = (end: string) => {
+    const v = field_parse(s, i, end);
+    if (v === null) throw err();
+    return (i = v[1]), v[0] === null ? null : type.input(v[0]);
+  };
+
+  const lower_inc = s[i] === "[";
+  if (!lower_inc && s[i] !== "(") throw err();
+  i++;
+  const lower = bound(",");
+  if (s[i++] !== ",") throw err();
+  const upper = bound(")]");
+  const upper_inc = s[i] === "]";
+  if (!upper_inc && s[i] !== ")") throw err();
+  i = skip_array_ws(s, i + 1);
+
+  // unbounded ends are never inclusive
+  const range = {
+    lower,
+    upper,
+    lower_inc: lower !== null && lower_inc,
+    upper_inc: upper !== null && upper_inc,
+    empty: false,
+  };
+  return [range, i];
+}
+
+function range_format(x: unknown, type: SqlType) {
+  if (typeof x !== "object" || x === null)
+    throw new SqlTypeError(`invalid range output '${x}'`);
+  const r = x as Partial<Range>;
+  if (r.empty) return "empty";
+  const lower = r.lower === undefined ? null : type.output(r.lower);
+  const upper = r.upper === undefined ? null : type.output(r.upper);
+  // inclusivity defaults to '[)' like the range constructor functions
+  const l = (r.lower_inc ?? true) ? "[" : "(";
+  const u = (r.upper_inc ?? false) ? "]" : ")";
+  return `${l}${field_quote(lower)},${field_quote(upper)}${u}`;
+}
+
+// parses a range bound or composite field starting at s[i] up to any of the
+// end characters, and returns it (null if empty) with the index of the end, or
+// null if a quote is unterminated
+function field_parse(
+  s: string,
+  i: number,
+  end: string
+): [string | null, number] | null {
+  let v = "";
+  let quoted = false;
+  for (; i < s.length && !end.includes(s[i]); i++) {
+    if (s[i] === `"`) {
+      // quoted section, where "" is an escaped quote
+      for (quoted = true, i++; ; i++) {
+        if (i >= s.length) return null;
+        else if (s[i] === "\\") v += s[++i] ?? "";
+        else if (s[i] === `"` && s[i + 1] === `"`) (v += `"`), i++;
+        else if (s[i] === `"`) break;
+        else v += s[i];
+      }
+    } else if (s[i] === "\\") v += s[++i] ?? "";
+    else v += s[i];
+  }
+  return [v === "" && !quoted ? null : v, i];
+}
+
+function field_quote(s: string | null) {
+  return s === null ? "" : `"${s.replace(/["\\]/g, "\\$&")}"`;
+}
+
+// https://www.postgresql.org/docs/current/rowtypes.html#ROWTYPES-IO-SYNTAX
+export function composite_type(
+  fields: readonly (readonly [name: string, type: SqlType])[]
+): SqlType {
+  return {
+    input(s) {
+      const xs = record_parse(s);
+      if (xs.length !== fields.length && !(xs.length === 1 && !fields.length))
+        throw new SqlTypeError(`invalid composite input '${s}'`);
+      const res: Record<string, unknown> = {};
+      for (let i = 0; i < fields.length; i++) {
+        const [name, type] = fields[i];
+        res[name] = xs[i] === null ? null : type.input(xs[i]!);
+      }
+      return res;
+    },
+    output(x) {
+      let xs: unknown[];
+      if (typeof x === "undefined" || x === null) return null;
+      else if (typeof x === "string")
+        return record_parse(x), x; // record literal
+      else if (Array.isArray(x)) xs = x;
+      else if (typeof x === "object")
+        xs = fields.map(([name]) => (x as Record<string, unknown>)[name]);
+      else throw new SqlTypeError(`invalid composite output '${x}'`);
+      if (xs.length !== fields.length)
+        throw new SqlTypeError(`invalid composite output '${x}'`);
+      return record_format(xs.map((x, i) => fields[i][1].output(x)));
+    },
+  };
+}
+
+// anonymous records are returned with positional string fields
+export const record: SqlType = {
+  input(s) {
+    return record_parse(s);
+  },
+  output(x) {
+    if (typeof x === "undefined" || x === null) return null;
+    else if (typeof x === "string")
+      return record_parse(x), x; // record literal
+    else if (Array.isArray(x)) return record_format(x.map(text.output));
+    else throw new SqlTypeError(`invalid record output '${x}'`);
+  },
+};
+
+function record_parse(s: string) {
+  const err = () => new SqlTypeError(`invalid record input '${s}'`);
+  const xs: (string | null)[] = [];
+  let i = skip_array_ws(s, 0);
+  if (s[i++] !== "(") throw err();
+  for (let v; ; ) {
+    if ((v = field_parse(s, i, ",)")) === null) throw err();
+    xs.push(v[0]), (i = v[1]);
+    if (i >= s.length) throw err();
+    else if (s[i++] === ")") break;
+  }
+  if (skip_array_ws(s, i) === s.length) return xs;
+  else throw err();
+}
+
+function record_format(xs: (string | null)[]) {
+  return `(${xs.map(field_quote).join(",")})`;
+}
+
+function skip_array_ws(s: string, i: number) {
+  while (i < s.length && is_array_ws(s[i])) i++;
+  return i;
+}
+
 export const sql_types: SqlTypeMap = {
   0: text,
   16: bool, // bool
@@ -373,19 +1807,368 @@ export const sql_types: SqlTypeMap = {
   28: uint4, // xid
   29: uint4, // cid
   114: json, // json
+  142: xml, // xml
+  143: array_type(xml), // _xml
+  199: array_type(json), // _json
+  271: array_type(uint8), // _xid8
+  600: point, // point
+  601: lseg, // lseg
+  602: path, // path
+  603: box, // box
+  604: polygon, // polygon
+  628: line, // line
+  629: array_type(line), // _line
+  650: cidr, // cidr
+  651: array_type(cidr), // _cidr
   700: float4, // float4
   701: float8, // float8
-  1082: timestamptz, // date
-  1114: timestamptz, // timestamp
+  718: circle, // circle
+  719: array_type(circle), // _circle
+  774: macaddr8, // macaddr8
+  775: array_type(macaddr8), // _macaddr8
+  790: money, // money
+  791: money_array_type(money), // _money
+  829: macaddr, // macaddr
+  869: inet, // inet
+  1000: array_type(bool), // _bool
+  1001: array_type(bytea), // _bytea
+  1002: array_type(char), // _char
+  1003: array_type(text), // _name
+  1005: array_type(int2), // _int2
+  1007: array_type(int4), // _int4
+  1009: array_type(text), // _text
+  1011: array_type(uint4), // _xid
+  1012: array_type(uint4), // _cid
+  1014: array_type(text), // _bpchar
+  1015: array_type(text), // _varchar
+  1016: array_type(int8), // _int8
+  1017: array_type(point), // _point
+  1018: array_type(lseg), // _lseg
+  1019: array_type(path), // _path
+  1020: array_type(box, ";"), // _box
+  1021: array_type(float4), // _float4
+  1022: array_type(float8), // _float8
+  1027: array_type(polygon), // _polygon
+  1028: array_type(uint4), // _oid
+  1040: array_type(macaddr), // _macaddr
+  1041: array_type(inet), // _inet
+  1082: date, // date
+  1083: time, // time
+  1114: timestamp, // timestamp
+  1115: array_type(timestamp), // _timestamp
+  1182: array_type(date), // _date
+  1183: array_type(time), // _time
   1184: timestamptz, // timestamptz
-  3802: json, // jsonb
+  1185: array_type(timestamptz), // _timestamptz
+  1186: interval, // interval
+  1187: array_type(interval), // _interval
+  1231: array_type(numeric), // _numeric
+  1266: timetz, // timetz
+  1270: array_type(timetz), // _timetz
+  1560: bit, // bit
+  1561: array_type(bit), // _bit
+  1562: varbit, // varbit
+  1563: array_type(varbit), // _varbit
+  1700: numeric, // numeric
+  2205: regclass, // regclass
+  2206: text, // regtype
+  2210: array_type(regclass), // _regclass
+  2211: array_type(text), // _regtype
+  2249: record, // record
+  2287: array_type(record), // _record
+  2950: uuid, // uuid
+  2951: array_type(uuid), // _uuid
+  3614: tsvector, // tsvector
+  3615: text, // tsquery
+  3643: array_type(tsvector), // _tsvector
+  3645: array_type(text), // _tsquery
+  3802: jsonb, // jsonb
+  3807: array_type(jsonb), // _jsonb
+  3904: range_type(int4), // int4range
+  3905: array_type(range_type(int4)), // _int4range
+  3906: range_type(numeric), // numrange
+  3907: array_type(range_type(numeric)), // _numrange
+  3908: range_type(timestamp), // tsrange
+  3909: array_type(range_type(timestamp)), // _tsrange
+  3910: range_type(timestamptz), // tstzrange
+  3911: array_type(range_type(timestamptz)), // _tstzrange
+  3912: range_type(date), // daterange
+  3913: array_type(range_type(date)), // _daterange
+  3926: range_type(int8), // int8range
+  3927: array_type(range_type(int8)), // _int8range
+  4451: multirange_type(int4), // int4multirange
+  4532: multirange_type(numeric), // nummultirange
+  4533: multirange_type(timestamp), // tsmultirange
+  4534: multirange_type(timestamptz), // tstzmultirange
+  4535: multirange_type(date), // datemultirange
+  4536: multirange_type(int8), // int8multirange
   5069: uint8, // xid8
+  6150: array_type(multirange_type(int4)), // _int4multirange
+  6151: array_type(multirange_type(numeric)), // _nummultirange
+  6152: array_type(multirange_type(timestamp)), // _tsmultirange
+  6153: array_type(multirange_type(timestamptz)), // _tstzmultirange
+  6155: array_type(multirange_type(date)), // _datemultirange
+  6157: array_type(multirange_type(int8)), // _int8multirange
 };
 
 sql.types = sql_types;
 
+// element types of the built-in array, range and multirange types
+const elem_types: Partial<
+  Record<number, [number, (type: SqlType) => SqlType]>
+> = {
+  143: [142, array_type], // _xml
+  199: [114, array_type], // _json
+  271: [5069, array_type], // _xid8
+  629: [628, array_type], // _line
+  651: [650, array_type], // _cidr
+  719: [718, array_type], // _circle
+  775: [774, array_type], // _macaddr8
+  791: [790, money_array_type], // _money
+  1000: [16, array_type], // _bool
+  1001: [17, array_type], // _bytea
+  1002: [18, array_type], // _char
+  1003: [19, array_type], // _name
+  1005: [21, array_type], // _int2
+  1007: [23, array_type], // _int4
+  1009: [25, array_type], // _text
+  1011: [28, array_type], // _xid
+  1012: [29, array_type], // _cid
+  1014: [1042, array_type], // _bpchar
+  1015: [1043, array_type], // _varchar
+  1016: [20, array_type], // _int8
+  1017: [600, array_type], // _point
+  1018: [601, array_type], // _lseg
+  1019: [602, array_type], // _path
+  1020: [603, (type) => array_type(type, ";")], // _box
+  1021: [700, array_type], // _float4
+  1022: [701, array_type], // _float8
+  1027: [604, array_type], // _polygon
+  1028: [26, array_type], // _oid
+  1040: [829, array_type], // _macaddr
+  1041: [869, array_type], // _inet
+  1115: [1114, array_type], // _timestamp
+  1182: [1082, array_type], // _date
+  1183: [1083, array_type], // _time
+  1185: [1184, array_type], // _timestamptz
+  1187: [1186, array_type], // _interval
+  1231: [1700, array_type], // _numeric
+  1270: [1266, array_type], // _timetz
+  1561: [1560, array_type], // _bit
+  1563: [1562, array_type], // _varbit
+  2210: [2205, array_type], // _regclass
+  2211: [2206, array_type], // _regtype
+  2287: [2249, array_type], // _record
+  2951: [2950, array_type], // _uuid
+  3643: [3614, array_type], // _tsvector
+  3645: [3615, array_type], // _tsquery
+  3807: [3802, array_type], // _jsonb
+  3904: [23, range_type], // int4range
+  3905: [3904, array_type], // _int4range
+  3906: [1700, range_type], // numrange
+  3907: [3906, array_type], // _numrange
+  3908: [1114, range_type], // tsrange
+  3909: [3908, array_type], // _tsrange
+  3910: [1184, range_type], // tstzrange
+  3911: [3910, array_type], // _tstzrange
+  3912: [1082, range_type], // daterange
+  3913: [3912, array_type], // _daterange
+  3926: [20, range_type], // int8range
+  3927: [3926, array_type], // _int8range
+  4451: [23, multirange_type], // int4multirange
+  4532: [1700, multirange_type], // nummultirange
+  4533: [1114, multirange_type], // tsmultirange
+  4534: [1184, multirange_type], // tstzmultirange
+  4535: [1082, multirange_type], // datemultirange
+  4536: [20, multirange_type], // int8multirange
+  6150: [4451, array_type], // _int4multirange
+  6151: [4532, array_type], // _nummultirange
+  6152: [4533, array_type], // _tsmultirange
+  6153: [4534, array_type], // _tstzmultirange
+  6155: [4535, array_type], // _datemultirange
+  6157: [4536, array_type], // _int8multirange
+};
+
+// names of the built-in types, so that statements using only these do not
+// need to look their types up (see compile_description() in wire.ts)
+export const sql_type_names: Partial<Record<number, string>> = {
+  16: "bool",
+  17: "bytea",
+  18: "char",
+  19: "name",
+  20: "int8",
+  21: "int2",
+  23: "int4",
+  25: "text",
+  26: "oid",
+  28: "xid",
+  29: "cid",
+  114: "json",
+  142: "xml",
+  143: "_xml",
+  199: "_json",
+  271: "_xid8",
+  600: "point",
+  601: "lseg",
+  602: "path",
+  603: "box",
+  604: "polygon",
+  628: "line",
+  629: "_line",
+  650: "cidr",
+  651: "_cidr",
+  700: "float4",
+  701: "float8",
+  718: "circle",
+  719: "_circle",
+  774: "macaddr8",
+  775: "_macaddr8",
+  790: "money",
+  791: "_money",
+  829: "macaddr",
+  869: "inet",
+  1000: "_bool",
+  1001: "_bytea",
+  1002: "_char",
+  1003: "_name",
+  1005: "_int2",
+  1007: "_int4",
+  1009: "_text",
+  1011: "_xid",
+  1012: "_cid",
+  1014: "_bpchar",
+  1015: "_varchar",
+  1016: "_int8",
+  1017: "_point",
+  1018: "_lseg",
+  1019: "_path",
+  1020: "_box",
+  1021: "_float4",
+  1022: "_float8",
+  1027: "_polygon",
+  1028: "_oid",
+  1040: "_macaddr",
+  1041: "_inet",
+  1082: "date",
+  1083: "time",
+  1114: "timestamp",
+  1115: "_timestamp",
+  1182: "_date",
+  1183: "_time",
+  1184: "timestamptz",
+  1185: "_timestamptz",
+  1186: "interval",
+  1187: "_interval",
+  1231: "_numeric",
+  1266: "timetz",
+  1270: "_timetz",
+  1560: "bit",
+  1561: "_bit",
+  1562: "varbit",
+  1563: "_varbit",
+  1700: "numeric",
+  2205: "regclass",
+  2206: "regtype",
+  2210: "_regclass",
+  2211: "_regtype",
+  2249: "record",
+  2287: "_record",
+  2950: "uuid",
+  2951: "_uuid",
+  3614: "tsvector",
+  3615: "tsquery",
+  3643: "_tsvector",
+  3645: "_tsquery",
+  3802: "jsonb",
+  3807: "_jsonb",
+  3904: "int4range",
+  3905: "_int4range",
+  3906: "numrange",
+  3907: "_numrange",
+  3908: "tsrange",
+  3909: "_tsrange",
+  3910: "tstzrange",
+  3911: "_tstzrange",
+  3912: "daterange",
+  3913: "_daterange",
+  3926: "int8range",
+  3927: "_int8range",
+  4451: "int4multirange",
+  4532: "nummultirange",
+  4533: "tsmultirange",
+  4534: "tstzmultirange",
+  4535: "datemultirange",
+  4536: "int8multirange",
+  5069: "xid8",
+  6150: "_int4multirange",
+  6151: "_nummultirange",
+  6152: "_tsmultirange",
+  6153: "_tstzmultirange",
+  6155: "_datemultirange",
+  6157: "_int8multirange",
+};
+
+// rebuilds the built-in array, range and multirange types whose element type
+// has been overridden, so that they decode the same way as their elements
+export function with_elem_types(types: SqlTypeMap): SqlTypeMap {
+  const res: Record<number, SqlType | undefined> = { ...types };
+  const resolve = (oid: number): SqlType | undefined => {
+    const e = elem_types[oid];
+    if (e === undefined || types[oid] !== sql_types[oid]) return res[oid];
+    const [elem_oid, f] = e;
+    const elem = resolve(elem_oid);
+    if (elem !== undefined && elem !== sql_types[elem_oid]) res[oid] = f(elem);
+    return res[oid];
+  };
+
+  for (const oid of Object.keys(elem_types)) resolve(Number(oid));
+  return res;
+}
+
+export const temporal_types: SqlTypeMap = {
+  1082: date_type(true), // date
+  1083: time_type(true), // time
+  1114: timestamp_type(true), // timestamp
+  1184: timestamptz_type(true), // timestamptz
+  1186: interval_type(true), // interval
+};
+
+// replaces the default date/time types with temporal_types, except where
+// they have been overridden
+export function with_temporal_types(types: SqlTypeMap): SqlTypeMap {
+  const res: Record<number, SqlType | undefined> = { ...types };
+  for (const [oid, type] of Object.entries(temporal_types)) {
+    if (types[Number(oid)] === sql_types[Number(oid)]) res[Number(oid)] = type;
+  }
+  return res;
+}
+
 export interface Result {
   readonly tag: string;
+  readonly columns: ReadonlyArray<Column>;
+}
+
+// https://www.postgresql.org/docs/current/protocol-message-formats.html#PROTOCOL-MESSAGE-FORMATS-ROWDESCRIPTION
+export interface Column {
+  readonly name: string;
+  readonly table_oid: number; // 0 if not a table column
+  readonly table_column: number; // 0 if not a table column
+  readonly type_oid: number;
+  readonly type_name: string | null;
+  readonly type_size: number;
+  readonly type_modifier: number;
+  readonly format: number;
+}
+
+// https://www.postgresql.org/docs/current/protocol-message-formats.html#PROTOCOL-MESSAGE-FORMATS-PARAMETERDESCRIPTION
+export interface Parameter {
+  readonly type_oid: number;
+  readonly type_name: string | null;
+}
+
+export interface Description {
+  readonly params: ReadonlyArray<Parameter>;
+  readonly columns: ReadonlyArray<Column>;
 }
 
 export interface Rows<T> extends Result, ReadonlyArray<T> {
@@ -403,34 +2186,51 @@ export interface QueryOptions {
   readonly chunk_size: number;
   readonly stdin: ReadableStream<Uint8Array> | null;
   readonly stdout: WritableStream<Uint8Array> | null;
+  readonly signal: AbortSignal | null;
+  readonly timeout: number;
 }
 
 export class Query<T = Row> implements PromiseLike<Rows<T>>, RowStream<T> {
   readonly #f;
+  readonly #d;
 
-  constructor(f: (options: Partial<QueryOptions>) => RowStream<T>) {
+  constructor(
+    f: (options: Partial<QueryOptions>) => RowStream<T>,
+    d: (() => Promise<Description>) | null = null
+  ) {
     this.#f = f;
+    this.#d = d;
   }
 
   simple(simple = true) {
     const f = this.#f;
-    return new Query((o) => f({ simple, ...o }));
+    return new Query((o) => f({ simple, ...o }), this.#d);
   }
 
   chunked(chunk_size = 1) {
     const f = this.#f;
-    return new Query((o) => f({ chunk_size, ...o }));
+    return new Query((o) => f({ chunk_size, ...o }), this.#d);
   }
 
   stdin(stdin: ReadableStream<Uint8Array> | string | null) {
     if (typeof stdin === "string") stdin = str_to_stream(stdin);
     const f = this.#f;
-    return new Query((o) => f({ stdin, ...o }));
+    return new Query((o) => f({ stdin, ...o }), this.#d);
   }
 
   stdout(stdout: WritableStream<Uint8Array> | null) {
     const f = this.#f;
-    return new Query((o) => f({ stdout, ...o }));
+    return new Query((o) => f({ stdout, ...o }), this.#d);
+  }
+
+  signal(signal: AbortSignal | null): Query<T> {
+    const f = this.#f;
+    return new Query((o) => f({ signal, ...o }), this.#d);
+  }
+
+  timeout(timeout: number): Query<T> {
+    const f = this.#f;
+    return new Query((o) => f({ timeout, ...o }), this.#d);
   }
 
   map<S>(f: (row: T, index: number) => S) {
@@ -448,7 +2248,7 @@ export class Query<T = Row> implements PromiseLike<Rows<T>>, RowStream<T> {
         yield to;
       }
       return next.value;
-    });
+    }, this.#d);
   }
 
   filter<S extends T>(f: (row: T, index: number) => row is S) {
@@ -467,7 +2267,7 @@ export class Query<T = Row> implements PromiseLike<Rows<T>>, RowStream<T> {
         yield to;
       }
       return next.value;
-    });
+    }, this.#d);
   }
 
   parse<S extends v.ObjectType>(
@@ -483,6 +2283,13 @@ export class Query<T = Row> implements PromiseLike<Rows<T>>, RowStream<T> {
     return this.#f(options);
   }
 
+  // parses the query and returns its parameter and column types without
+  // executing it
+  async describe(): Promise<Description> {
+    if (this.#d !== null) return await this.#d();
+    else throw new TypeError(`query cannot be described`);
+  }
+
   async first(): Promise<T> {
     const rows = await this.collect(1);
     if (rows.length !== 0) return rows[0];
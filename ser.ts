@@ -83,6 +83,52 @@ export const i32: Encoder<number> = {
   },
 };
 
+function view(buf: Uint8Array) {
+  return new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+}
+
+export const i64: Encoder<bigint> = {
+  const_size: 8,
+  allocs() {
+    return 8;
+  },
+  encode(buf, cur, n) {
+    view(buf).setBigInt64(cur.i, n), (cur.i += 8);
+  },
+  decode(buf, cur) {
+    const n = view(buf).getBigInt64(cur.i);
+    return (cur.i += 8), n;
+  },
+};
+
+export const f32: Encoder<number> = {
+  const_size: 4,
+  allocs() {
+    return 4;
+  },
+  encode(buf, cur, n) {
+    view(buf).setFloat32(cur.i, n), (cur.i += 4);
+  },
+  decode(buf, cur) {
+    const n = view(buf).getFloat32(cur.i);
+    return (cur.i += 4), n;
+  },
+};
+
+export const f64: Encoder<number> = {
+  const_size: 8,
+  allocs() {
+    return 8;
+  },
+  encode(buf, cur, n) {
+    view(buf).setFloat64(cur.i, n), (cur.i += 8);
+  },
+  decode(buf, cur) {
+    const n = view(buf).getFloat64(cur.i);
+    return (cur.i += 8), n;
+  },
+};
+
 export function char(type: Encoder<number>) {
   return map(type, {
     from(n: number) {
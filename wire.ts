@@ -43,6 +43,10 @@ import {
   is_sql,
   Query,
   type Result,
+  type Column,
+  type Description,
+  type Parameter,
+  type Rows,
   type RowStream,
   type Row,
   sql,
@@ -50,6 +54,13 @@ import {
   type SqlTypeMap,
   text,
   sql_types,
+  with_temporal_types,
+  with_elem_types,
+  sql_type_names,
+  array_type,
+  enum_type,
+  composite_type,
+  type SqlType,
 } from "./query.ts";
 
 export class WireError extends Error {
@@ -58,6 +69,12 @@ export class WireError extends Error {
   }
 }
 
+export class QueryCancelledError extends WireError {}
+export class QueryTimeoutError extends QueryCancelledError {}
+export class PoolCancelledError extends WireError {}
+export class PoolTimeoutError extends PoolCancelledError {}
+export class PoolExhaustedError extends WireError {}
+
 export class PostgresError extends WireError {
   readonly severity;
   readonly code;
@@ -114,6 +131,21 @@ function severity_log_level(s: string): LogLevel {
   }
 }
 
+// https://www.postgresql.org/docs/current/errcodes-appendix.html
+function is_stale_statement(e: unknown) {
+  // "cached plan must not change result type" shares 0A000 (feature not
+  // supported) with unrelated errors, so it is matched by routine or message
+  if (!(e instanceof PostgresError)) return false;
+  else if (e.code === "26000")
+    return true; // invalid statement name
+  else
+    return (
+      e.code === "0A000" &&
+      (e.routine === "RevalidateCachedQuery" ||
+        e.message === "cached plan must not change result type")
+    );
+}
+
 interface MessageEncoder<T extends string, S extends ObjectShape>
   extends ObjectEncoder<S> {
   readonly type: T;
@@ -438,6 +470,10 @@ export const StartupMessage = msg("", {
   } satisfies Encoder<Record<string, string>>,
 });
 
+export const SSLRequest = msg("", {
+  code: oneof(i32, 80877103 as const),
+});
+
 export const Sync = msg("S", {});
 export const Terminate = msg("X", {});
 
@@ -445,6 +481,33 @@ function getenv(name: string) {
   return Deno.env.get(name);
 }
 
+// https://www.postgresql.org/docs/current/libpq-ssl.html#LIBPQ-SSL-SSLMODE-STATEMENTS
+// unlike libpq, require and verify-ca also verify the server hostname and
+// certificate chain, since deno cannot skip either (see socket_tls())
+const ssl_modes = [
+  "disable",
+  "allow",
+  "prefer",
+  "require",
+  "verify-ca",
+  "verify-full",
+] as const;
+
+export type SslMode = (typeof ssl_modes)[number];
+
+function is_ssl_mode(s: string): s is SslMode {
+  return (ssl_modes as readonly string[]).includes(s);
+}
+
+// https://www.postgresql.org/docs/current/libpq-connect.html#LIBPQ-CONNECT-SSLNEGOTIATION
+const ssl_negotiations = ["postgres", "direct"] as const;
+
+export type SslNegotiation = (typeof ssl_negotiations)[number];
+
+function is_ssl_negotiation(s: string): s is SslNegotiation {
+  return (ssl_negotiations as readonly string[]).includes(s);
+}
+
 export type WireOptions = v.Infer<typeof WireOptions>;
 export const WireOptions = v.object({
   host: v.string().optional(() => getenv("PGHOST") ?? "localhost"),
@@ -461,6 +524,19 @@ export const WireOptions = v.object({
     .string()
     .nullable()
     .optional(() => getenv("PGDATABASE") ?? null),
+  sslmode: v
+    .string()
+    .optional(() => getenv("PGSSLMODE") ?? "prefer")
+    .assert(is_ssl_mode, `invalid sslmode`),
+  sslnegotiation: v
+    .string()
+    .optional(() => getenv("PGSSLNEGOTIATION") ?? "postgres")
+    .assert(is_ssl_negotiation, `invalid sslnegotiation`),
+  sslrootcert: v
+    .string()
+    .nullable()
+    .optional(() => getenv("PGSSLROOTCERT") ?? null),
+  ca_certs: v.array(v.string()).optional(() => []),
   runtime_params: v
     .record(v.string())
     .map((p) => ((p.application_name ??= "pglue"), p)),
@@ -472,7 +548,24 @@ export const WireOptions = v.object({
   types: v
     .record(v.unknown())
     .optional(() => ({}))
-    .map((types): SqlTypeMap => ({ ...sql_types, ...types })),
+    .map((types) => ({ ...sql_types, ...types }) as SqlTypeMap),
+  temporal: v.boolean().optional(() => false),
+  prepare: v.boolean().optional(() => true),
+  statement_cache: v.boolean().optional(() => true),
+  max_statements: v
+    .number()
+    .optional(() => 256)
+    .assert(Number.isSafeInteger, `invalid number`),
+  on_connect: v
+    .unknown()
+    .assert((f) => f === null || typeof f === "function", `invalid function`)
+    .optional(() => null)
+    .map(
+      (f) =>
+        f as
+          | ((query: SetupQuery, wire: Wire) => void | PromiseLike<void>)
+          | null
+    ),
   verbose: v.boolean().optional(() => false),
 });
 
@@ -489,6 +582,13 @@ export type LogLevel = "trace" | "debug" | "info" | "warn" | "error" | "fatal";
 
 export interface Parameters extends Readonly<Partial<Record<string, string>>> {}
 
+export interface StatementStats {
+  readonly size: number;
+  readonly hits: number;
+  readonly misses: number;
+  readonly evictions: number;
+}
+
 export interface Transaction extends Result, AsyncDisposable {
   readonly open: boolean;
   commit(): Promise<Result>;
@@ -496,7 +596,10 @@ export interface Transaction extends Result, AsyncDisposable {
 }
 
 export type NotificationHandler = (payload: string, process_id: number) => void;
-export type ChannelEvents = { notify: NotificationHandler };
+export type ChannelEvents = {
+  notify: NotificationHandler;
+  close(): void; // no longer listening, i.e. after unlisten or a pool reset
+};
 export interface Channel
   extends TypedEmitter<ChannelEvents>,
     Result,
@@ -511,12 +614,24 @@ export interface Postgres {
   query<T = Row>(sql: SqlFragment): Query<T>;
   query<T = Row>(s: TemplateStringsArray, ...xs: unknown[]): Query<T>;
 
+  describe(sql: SqlFragment): Promise<Description>;
+  describe(s: TemplateStringsArray, ...xs: unknown[]): Promise<Description>;
+
+  batch(queries: readonly SqlFragment[]): Promise<Rows<Row>[]>;
+
   begin(): Promise<Transaction>;
   begin<T>(
     f: (pg: Postgres, tx: Transaction) => T | PromiseLike<T>
   ): Promise<T>;
 }
 
+// the query function on_connect sets up the connection with. the wire's own
+// methods wait until the connection is set up, so the hook must not use them
+export interface SetupQuery {
+  <T = Row>(sql: SqlFragment): Query<T>;
+  <T = Row>(s: TemplateStringsArray, ...xs: unknown[]): Query<T>;
+}
+
 export class Wire<V extends WireEvents = WireEvents>
   extends TypedEmitter<V>
   implements Postgres, Disposable
@@ -525,24 +640,38 @@ export class Wire<V extends WireEvents = WireEvents>
   readonly #params;
   readonly #connect;
   readonly #query;
+  readonly #describe;
+  readonly #batch;
+  readonly #statement_stats;
   readonly #begin;
   readonly #listen;
   readonly #notify;
+  readonly #reset;
+  readonly #cancel;
   readonly #close;
 
   get params() {
     return this.#params;
   }
 
+  get statements(): StatementStats {
+    return this.#statement_stats();
+  }
+
   constructor(options: WireOptions) {
     super();
     ({
       params: this.#params,
       connect: this.#connect,
       query: this.#query,
+      describe: this.#describe,
+      batch: this.#batch,
+      statement_stats: this.#statement_stats,
       begin: this.#begin,
       listen: this.#listen,
       notify: this.#notify,
+      reset: this.#reset,
+      cancel: this.#cancel,
       close: this.#close,
     } = wire_impl(this, (this.#options = options)));
   }
@@ -557,6 +686,19 @@ export class Wire<V extends WireEvents = WireEvents>
     return this.#query(is_sql(s) ? s : sql(s, ...xs));
   }
 
+  describe(sql: SqlFragment): Promise<Description>;
+  describe(s: TemplateStringsArray, ...xs: unknown[]): Promise<Description>;
+  describe(
+    s: TemplateStringsArray | SqlFragment,
+    ...xs: unknown[]
+  ): Promise<Description> {
+    return this.#describe(is_sql(s) ? s : sql(s, ...xs));
+  }
+
+  batch(queries: readonly SqlFragment[]): Promise<Rows<Row>[]> {
+    return this.#batch(queries);
+  }
+
   begin(): Promise<Transaction>;
   begin<T>(f: (wire: this, tx: Transaction) => T | PromiseLike<T>): Promise<T>;
   async begin(f?: (wire: this, tx: Transaction) => unknown) {
@@ -580,6 +722,14 @@ export class Wire<V extends WireEvents = WireEvents>
     return this.#notify(channel, payload);
   }
 
+  async reset(statements: string | null = null): Promise<void> {
+    await this.#reset(statements);
+  }
+
+  async cancel(): Promise<void> {
+    await this.#cancel();
+  }
+
   async current_setting(name: string) {
     return await this.query<
       [string]
@@ -589,6 +739,14 @@ export class Wire<V extends WireEvents = WireEvents>
   }
 
   async set_config(name: string, value: string, local = false) {
+    if (!local && !this.#options.prepare) {
+      (this as Wire).emit(
+        "log",
+        "warn",
+        { name, value },
+        `session-level set_config may not persist through a transaction pooler`
+      );
+    }
     return await this.query<
       [string]
     >`select set_config(${name}::text, ${value}::text, ${local}::boolean)`
@@ -750,13 +908,115 @@ function randstr(entropy: number) {
   return to_base58(crypto.getRandomValues(new Uint8Array(entropy)));
 }
 
-async function socket_connect(hostname: string, port: number) {
+async function socket_connect(
+  hostname: string,
+  port: number,
+  sslmode: SslMode,
+  sslnegotiation: SslNegotiation,
+  ca_certs: string[]
+): Promise<Deno.Conn> {
   if (hostname.startsWith("/")) {
+    // like libpq, ssl is never used over unix sockets
     const path = join(hostname, `.s.PGSQL.${port}`);
     return await Deno.connect({ transport: "unix", path });
   } else {
     const socket = await Deno.connect({ transport: "tcp", hostname, port });
-    return socket.setNoDelay(), socket.setKeepAlive(), socket;
+    socket.setNoDelay(), socket.setKeepAlive();
+    if (sslmode === "disable") return socket;
+    try {
+      if (sslnegotiation === "direct") {
+        return await socket_tls(socket, hostname, sslmode, ca_certs, true);
+      } else {
+        return await socket_ssl_request(socket, hostname, sslmode, ca_certs);
+      }
+    } catch (e) {
+      try {
+        socket.close();
+      } catch {
+        // ignored
+      }
+      // like libpq, prefer retries without ssl when the handshake fails, e.g.
+      // for a self-signed certificate that deno cannot be told to accept
+      if (sslmode === "prefer" && e instanceof SslHandshakeError)
+        return await socket_connect(hostname, port, "disable", "postgres", []);
+      else throw e;
+    }
+  }
+}
+
+// https://www.postgresql.org/docs/current/protocol-flow.html#PROTOCOL-FLOW-SSL
+async function socket_ssl_request(
+  socket: Deno.TcpConn,
+  hostname: string,
+  sslmode: SslMode,
+  ca_certs: string[]
+): Promise<Deno.Conn> {
+  const req = ser_encode(SSLRequest, { code: 80877103 });
+  for (let i = 0, n = req.length; i < n; )
+    i += await socket.write(req.subarray(i));
+
+  // read exactly one byte so that nothing unencrypted is buffered (CVE-2021-23222)
+  const res = new Uint8Array(1);
+  if ((await socket.read(res)) !== 1)
+    throw new WireError(`unexpected end of stream`);
+
+  switch (String.fromCharCode(res[0])) {
+    case "S":
+      return await socket_tls(socket, hostname, sslmode, ca_certs, false);
+
+    case "N":
+      if (sslmode === "allow" || sslmode === "prefer") return socket;
+      else throw new WireError(`server does not support ssl`);
+
+    default:
+      throw new WireError(`invalid ssl response`);
+  }
+}
+
+class SslHandshakeError extends WireError {}
+
+function is_tls(socket: Deno.Conn): socket is Deno.TlsConn {
+  return "handshake" in socket;
+}
+
+async function socket_tls(
+  socket: Deno.TcpConn,
+  hostname: string,
+  sslmode: SslMode,
+  caCerts: string[],
+  direct: boolean
+) {
+  const tls = await Deno.startTls(socket, {
+    hostname,
+    caCerts,
+    alpnProtocols: ["postgresql"],
+  });
+
+  try {
+    let alpnProtocol;
+    try {
+      ({ alpnProtocol } = await tls.handshake());
+    } catch (e) {
+      // deno always verifies the server certificate chain and hostname and has
+      // no way to opt out per connection, so every mode is as strict as
+      // verify-full
+      throw new SslHandshakeError(
+        sslmode === "verify-full"
+          ? `tls handshake failed`
+          : `tls handshake failed; sslmode=${sslmode} verifies the server certificate like verify-full, set sslrootcert to trust a private ca`,
+        { cause: e }
+      );
+    }
+
+    // direct ssl connections must negotiate alpn, otherwise the server may
+    // not be postgres at all (e.g. a proxy that routed us somewhere else)
+    if (direct && alpnProtocol !== "postgresql")
+      throw new WireError(
+        `server did not negotiate alpn protocol 'postgresql'`
+      );
+    else return tls;
+  } catch (e) {
+    throw (tls.close(), e);
   }
 }
 
@@ -768,9 +1028,18 @@ function wire_impl(
     user,
     database,
     password,
+    sslmode,
+    sslnegotiation,
+    sslrootcert,
+    ca_certs,
     runtime_params,
     reconnect_delay,
     types,
+    temporal,
+    prepare,
+    statement_cache,
+    max_statements,
+    on_connect,
     verbose,
   }: WireOptions
 ) {
@@ -785,26 +1054,118 @@ function wire_impl(
   let read_queue: Receiver<Uint8Array> | null = null;
   let write_queue: Sender<Uint8Array> | null = null;
 
-  async function connect() {
-    using _rlock = await rlock();
-    using _wlock = await wlock();
+  const connect_lock = semaphore();
+
+  // user calls wait while the connection is set up (see set_up()), so that
+  // queries issued during a reconnect cannot run before on_connect
+  let ready: PromiseWithResolvers<void> | null = null;
+  let hook_failed = false;
+
+  async function until_ready() {
+    while (ready !== null) await ready.promise;
+  }
+
+  // the setup's own queries, including those of on_connect, do not wait
+  const setup_query: SetupQuery = (
+    s: TemplateStringsArray | SqlFragment,
+    ...xs: unknown[]
+  ) => query(is_sql(s) ? s : sql(s, ...xs));
+
+  function connect() {
+    return set_up(connect_once);
+  }
+
+  // runs f while user calls wait for it to finish
+  async function set_up(f: () => Promise<void>) {
+    const gate = (ready ??= Promise.withResolvers());
+    gate.promise.catch(() => {}); // nobody may be waiting
+    try {
+      await f();
+      gate.resolve();
+    } catch (e) {
+      throw (gate.reject(e), e);
+    } finally {
+      if (ready === gate) ready = null;
+    }
+  }
+
+  async function connect_once() {
+    using _lock = await connect_lock();
     if (connected) return;
-    else close_requested = false;
+    else (close_requested = false), (hook_failed = false);
+
+    // like libpq, direct ssl must not fall back to plaintext
+    if (
+      sslnegotiation === "direct" &&
+      (sslmode === "disable" || sslmode === "allow" || sslmode === "prefer")
+    ) {
+      throw new WireError(
+        `sslnegotiation=direct requires sslmode=require, verify-ca or verify-full`
+      );
+    }
+
+    // https://www.postgresql.org/docs/current/libpq-ssl.html#LIBPQ-SSL-PROTECTION
+    let onclose;
+    try {
+      onclose = await open(sslmode === "allow" ? "disable" : sslmode);
+    } catch (e) {
+      // allow retries once with ssl. prefer falls back to plaintext when the
+      // server declines ssl or the handshake fails (see socket_connect())
+      if (close_requested || sslmode !== "allow") throw e;
+      log("info", { reason: e, sslmode: "require" }, `retrying connection`);
+      onclose = await open("require");
+    }
+
+    // setup runs queries through the pipeline, so it must run outside the rw
+    // lock, but still before anyone is told the connection is ready
+    try {
+      // re-listen previously registered channels
+      await Promise.all(
+        channels
+          .keys()
+          .map((name) => query(sql`listen ${sql.ident(name)}`).execute())
+      );
+
+      try {
+        await on_connect?.(setup_query, wire);
+      } catch (e) {
+        throw ((hook_failed = true), e);
+      }
+
+      if (close_requested) throw new WireError(`close requested`);
+      else (connected = true), wire.emit("connect");
+    } catch (e) {
+      throw (onclose(e), e);
+    }
+  }
+
+  async function ssl_ca_certs() {
+    // sslrootcert=system uses the system store, which deno does by default
+    if (sslrootcert === null || sslrootcert === "system") return ca_certs;
+    else return [...ca_certs, await Deno.readTextFile(sslrootcert)];
+  }
+
+  let ssl = false;
+
+  async function open(mode: SslMode) {
     let socket: Deno.Conn | undefined;
     let closed = false;
 
     try {
       const read = channel<Uint8Array>();
       const write = channel<Uint8Array>();
-      socket = await socket_connect(host, port);
-      read_queue?.close(), (read_queue = read.recv);
+      const certs = mode !== "disable" ? await ssl_ca_certs() : [];
+      socket = await socket_connect(host, port, mode, sslnegotiation, certs);
+      ssl = is_tls(socket);
+      read_queue?.close(), (read_queue = read.recv), (ready_queued = 0);
       write_queue?.close(), (write_queue = write.send);
       read_socket(socket, read.send).then(onclose, onclose);
       write_socket(socket, write.recv).then(onclose, onclose);
-      await handle_auth(); // run auth with rw lock
 
-      if (close_requested) throw new WireError(`close requested`);
-      else (connected = true), wire.emit("connect");
+      using _rlock = await rlock();
+      using _wlock = await wlock();
+      await handle_auth(); // run auth with rw lock
+      return onclose;
     } catch (e) {
       throw (onclose(e), e);
     }
@@ -815,9 +1176,14 @@ function wire_impl(
       socket?.close();
       for (const name of Object.keys(params))
         delete (params as Record<string, string>)[name];
-      st_cache.clear(), (st_ids = 0);
+      st_cache.clear();
       (tx_status = "I"), (tx_stack.length = 0);
-      connected &&= (wire.emit("close", reason), reconnect(), false);
+      (ssl = false), (backend_key = null);
+      if (connected) {
+        connected = false;
+        reconnect(); // first, so queries issued on close wait for it
+        wire.emit("close", reason);
+      }
     }
   }
 
@@ -825,9 +1191,15 @@ function wire_impl(
   function reconnect() {
     if (close_requested || reconnect_delay === null) return;
     connect().catch((err) => {
-      log("warn", err, `reconnect failed`);
-      clearTimeout(reconnect_timer);
-      reconnect_timer = setTimeout(reconnect, reconnect_delay);
+      if (hook_failed) {
+        // the hook would most likely fail again, so give up and close for good
+        log("error", err, `on_connect failed, not reconnecting`);
+        close(err), wire.emit("close", err);
+      } else {
+        log("warn", err, `reconnect failed`);
+        clearTimeout(reconnect_timer);
+        reconnect_timer = setTimeout(reconnect, reconnect_delay);
+      }
     });
   }
 
@@ -838,16 +1210,18 @@ function wire_impl(
     write_queue?.close(reason), (write_queue = null);
   }
 
+  // number of ReadyForQuery received from the socket but not yet read
+  let ready_queued = 0;
+
   async function read<T>(type: Encoder<T>) {
-    const msg = read_queue !== null ? await read_queue() : null;
-    if (msg !== null) return ser_decode(type, msg_check_err(msg));
-    else throw new WireError(`connection closed`);
+    return ser_decode(type, msg_check_err(await read_any()));
   }
 
   async function read_any() {
     const msg = read_queue !== null ? await read_queue() : null;
-    if (msg !== null) return msg;
-    else throw new WireError(`connection closed`);
+    if (msg === null) throw new WireError(`connection closed`);
+    else if (msg_type(msg) === ReadyForQuery.type) ready_queued--;
+    return msg;
   }
 
   async function read_socket(socket: Deno.Conn, send: Sender<Uint8Array>) {
@@ -864,7 +1238,9 @@ function wire_impl(
         buf = buf.subarray(size);
         if (verbose)
           log("trace", {}, `RECV <- ${msg_type(msg)} ${to_hex(msg)}`);
-        if (!handle_msg(msg)) send(msg);
+        if (handle_msg(msg)) continue;
+        else if (send(msg) && msg_type(msg) === ReadyForQuery.type)
+          ready_queued++;
       }
     }
 
@@ -935,18 +1311,44 @@ function wire_impl(
 
   function pipeline<T>(
     w: () => void | PromiseLike<void>,
-    r: () => T | PromiseLike<T>
+    r: () => T | PromiseLike<T>,
+    signal: AbortSignal | null = null
   ) {
     return new Promise<T>((res, rej) => {
-      pipeline_write(w).catch(rej);
-      pipeline_read(r).then(res, rej);
+      const written = Promise.withResolvers<boolean>();
+      pipeline_write(w, signal, written).catch(rej);
+      pipeline_read(r, signal, written.promise).then(res, rej);
     });
   }
 
-  async function pipeline_read<T>(r: () => T | PromiseLike<T>) {
+  // number of pipelines that have finished reading
+  let read_count = 0;
+
+  async function pipeline_read<T>(
+    r: () => T | PromiseLike<T>,
+    signal: AbortSignal | null,
+    written: Promise<boolean>
+  ) {
     using _lock = await rlock();
+    if (!(await written)) throw query_cancelled(signal!);
+
+    // while we hold the read lock, the next ReadyForQuery is the one for this
+    // pipeline. once it has been received, the server may already be running
+    // the next pipeline, which a cancel request would hit instead. cancel()
+    // checks this again right before sending, as connecting takes a while
+    const n = read_count;
+    const running = () => read_count === n && ready_queued === 0;
+    using _abort = on_abort(signal, function abort() {
+      if (!running()) return;
+      cancel(running).catch((err) => log("warn", err, `cancel request failed`));
+    });
+
     try {
       return await r();
+    } catch (e) {
+      if (signal?.aborted && e instanceof PostgresError && e.code === "57014")
+        throw query_cancelled(signal);
+      else throw e;
     } finally {
       try {
         let msg;
@@ -954,12 +1356,23 @@ function wire_impl(
         ({ tx_status } = ser_decode(ReadyForQuery, msg));
       } catch {
         // ignored
+      } finally {
+        read_count++;
       }
     }
   }
 
-  async function pipeline_write<T>(w: () => T | PromiseLike<T>) {
+  async function pipeline_write<T>(
+    w: () => T | PromiseLike<T>,
+    signal: AbortSignal | null,
+    written: PromiseWithResolvers<boolean>
+  ) {
     using _lock = await wlock();
+    // a pipeline aborted while it was still queued is not written at all, so
+    // it is rejected locally instead of being cancelled (see pipeline_read())
+    if (signal?.aborted) return written.resolve(false);
+    else written.resolve(true);
+
     try {
       return await w();
     } finally {
@@ -971,9 +1384,58 @@ function wire_impl(
     }
   }
 
+  function on_abort(signal: AbortSignal | null, f: () => void): Disposable {
+    if (signal === null) return { [Symbol.dispose]() {} };
+    else if (signal.aborted) f();
+    else signal.addEventListener("abort", f, { once: true });
+    return { [Symbol.dispose]: () => signal.removeEventListener("abort", f) };
+  }
+
+  function query_cancelled({ reason }: AbortSignal) {
+    if (reason instanceof DOMException && reason.name === "TimeoutError")
+      return new QueryTimeoutError(`query timed out`, { cause: reason });
+    else return new QueryCancelledError(`query cancelled`, { cause: reason });
+  }
+
+  // https://www.postgresql.org/docs/current/protocol-flow.html#PROTOCOL-FLOW-CANCELING-REQUESTS
+  let backend_key: { process_id: number; secret_key: number } | null = null;
+
+  // sends a cancel request, unless running() says that the query to cancel has
+  // finished by the time the request can be sent
+  async function cancel(running: () => boolean = () => true) {
+    if (backend_key === null) throw new WireError(`connection closed`);
+    const { process_id, secret_key } = backend_key;
+    const mode = ssl ? sslmode : "disable";
+    const certs = mode !== "disable" ? await ssl_ca_certs() : [];
+    const socket = await socket_connect(
+      host,
+      port,
+      mode,
+      sslnegotiation,
+      certs
+    );
+
+    try {
+      if (!running()) return;
+      const req = ser_encode(CancelRequest, {
+        code: 80877102,
+        process_id,
+        secret_key,
+      });
+
+      for (let i = 0, n = req.length; i < n; )
+        i += await socket.write(req.subarray(i));
+
+      // the server closes the connection once it has processed the request
+      await socket.read(new Uint8Array(1));
+    } finally {
+      socket.close();
+    }
+  }
+
   // https://www.postgresql.org/docs/current/protocol-flow.html#PROTOCOL-FLOW-START-UP
   async function handle_auth() {
-    // always run within rw lock (see connect())
+    // always run within rw lock (see open())
     write(StartupMessage, {
       version: 196608,
       params: {
@@ -985,6 +1447,7 @@ function wire_impl(
         bytea_output: "hex",
         client_encoding: "utf8",
         DateStyle: "ISO",
+        IntervalStyle: "postgres",
       },
     });
 
@@ -1023,7 +1486,9 @@ function wire_impl(
 
         // AuthenticationSASL
         case 10:
-          await handle_auth_sasl();
+          await handle_auth_sasl(
+            ser_decode(AuthenticationSASL, msg).mechanisms
+          );
           continue;
 
         default:
@@ -1035,8 +1500,11 @@ function wire_impl(
     ready: for (;;) {
       const msg = msg_check_err(await read_any());
       switch (msg_type(msg)) {
-        case BackendKeyData.type:
-          continue; // ignored
+        case BackendKeyData.type: {
+          const { process_id, secret_key } = ser_decode(BackendKeyData, msg);
+          backend_key = { process_id, secret_key };
+          continue;
+        }
 
         default:
           ser_decode(ReadyForQuery, msg);
@@ -1044,20 +1512,17 @@ function wire_impl(
       }
     }
 
-    // re-listen previously registered channels
-    await Promise.all(
-      channels
-        .keys()
-        .map((name) => query(sql`listen ${sql.ident(name)}`).execute())
-    );
+    await load_types();
   }
 
   // https://www.postgresql.org/docs/current/sasl-authentication.html#SASL-SCRAM-SHA-256
   // https://datatracker.ietf.org/doc/html/rfc5802
-  async function handle_auth_sasl() {
+  async function handle_auth_sasl(mechanisms: string[]) {
     const bits = 256;
     const hash = `SHA-${bits}`;
     const mechanism = `SCRAM-${hash}`;
+    if (!mechanisms.includes(mechanism))
+      throw new WireError(`unsupported SASL mechanisms ${mechanisms}`);
 
     async function hmac(key: Uint8Array, str: string | Uint8Array) {
       return new Uint8Array(
@@ -1100,6 +1565,8 @@ function wire_impl(
       return attrs;
     }
 
+    // SCRAM-SHA-256-PLUS is not supported, as tls-server-end-point binds to the
+    // server certificate, which Deno.startTls does not expose
     const gs2_cbind_flag = `n`;
     const gs2_header = `${gs2_cbind_flag},,`;
     const username = `n=*`;
@@ -1141,83 +1608,348 @@ function wire_impl(
   }
 
   // https://www.postgresql.org/docs/current/protocol-flow.html#PROTOCOL-FLOW-EXT-QUERY
-  const st_cache = new Map<string, Statement>();
-  let st_ids = 0;
+  const st_cache = new Map<string, Statement>(); // in lru order
+  const st_stats = { hits: 0, misses: 0, evictions: 0 };
+  let st_ids = 0; // not reset on reconnect, so late closes can't hit new statements
+  let pt_ids = 0;
+
+  class Statement implements Disposable {
+    // without caching there is nothing to reuse, so the unnamed statement is
+    // used as well, which needs no Close. it is replaced by the next Parse, so
+    // queries parse it again before binding it (see write_bind())
+    constructor(
+      readonly query: string,
+      readonly name = prepare && statement_cache ? `__st${st_ids++}` : ""
+    ) {}
+
+    #refs = 0;
+    #evicted = false;
+
+    ref() {
+      return this.#refs++, this;
+    }
+
+    // closes the statement once it is no longer used by any query
+    evict() {
+      this.#evicted = true;
+      if (this.#refs === 0) this.#close();
+    }
+
+    [Symbol.dispose]() {
+      if (--this.#refs === 0 && this.#evicted) this.#close();
+    }
 
-  class Statement {
-    readonly name = `__st${st_ids++}`;
-    constructor(readonly query: string) {}
+    #close() {
+      if (this.#parse_task === null) return;
+      const name = this.name;
+      (this.#parse_task = null), (this.described = null);
+      if (name === "") return;
+      pipeline(
+        () => write(Close, { which: "S", name }),
+        () => read(CloseComplete)
+      ).catch((err) => log("warn", err, `failed to close statement`));
+    }
 
-    #parse_task: Promise<{
-      ser_params: ParameterSerializer;
-      Row: RowConstructor;
-    }> | null = null;
+    #parse_task: Promise<StatementDescription> | null = null;
+    described: StatementDescription | null = null; // once parsed
 
     parse() {
-      return (this.#parse_task ??= this.#parse());
+      return (this.#parse_task ??= this.#track(this.#parse()));
+    }
+
+    // parses the statement using a pipeline that already holds the write lock
+    // (see execute_batch()), unless it is already being parsed by another
+    parse_with(f: () => Promise<StatementDescription>) {
+      if (this.#parse_task !== null) return null;
+      else return (this.#parse_task = this.#track(f()));
     }
 
     async #parse() {
+      const { name, query } = this;
+      const desc = await pipeline(() => {
+        write(Parse, { statement: name, query, param_types: [] });
+        write(Describe, { which: "S", name });
+      }, read_description);
+      return compile_description(desc, name !== "");
+    }
+
+    async #track(task: Promise<StatementDescription>) {
       try {
-        const { name, query } = this;
-        return await pipeline(
-          () => {
-            write(Parse, { statement: name, query, param_types: [] });
-            write(Describe, { which: "S", name });
-          },
-          async () => {
-            await read(ParseComplete);
-            const ser_params = make_param_ser(await read(ParameterDescription));
-
-            const msg = msg_check_err(await read_any());
-            const Row =
-              msg_type(msg) === NoData.type
-                ? EmptyRow
-                : make_row_ctor(ser_decode(RowDescription, msg));
-
-            return { ser_params, Row };
-          }
-        );
+        return (this.described = await task);
       } catch (e) {
         throw ((this.#parse_task = null), e);
       }
     }
+  }
 
-    #portals = 0;
-    portal() {
-      return `${this.name}_${this.#portals++}`;
-    }
+  interface StatementDescription {
+    params: Parameter[];
+    param_types: number[];
+    ser_params: ParameterSerializer;
+    param_formats: number[];
+    Row: RowConstructor;
+    column_formats: number[];
+  }
+
+  // reads the response to Parse followed by Describe of the statement. this
+  // runs within the read lock, so looking up its types and compiling it is left
+  // to compile_description() after the pipeline
+  async function read_description() {
+    await read(ParseComplete);
+    const { param_types } = await read(ParameterDescription);
+    const msg = msg_check_err(await read_any());
+    const { columns } =
+      msg_type(msg) === NoData.type
+        ? { columns: [] }
+        : ser_decode(RowDescription, msg);
+    return { param_types, columns };
+  }
+
+  async function compile_description(
+    { param_types, columns }: ParameterDescription & RowDescription,
+    binary: boolean,
+    lookup = lookup_types
+  ): Promise<StatementDescription> {
+    const oids = new Set(param_types);
+    for (const c of columns) oids.add(c.type_oid);
+    for (const oid of oids) if (sql_types[oid] !== undefined) oids.delete(oid);
+    for (const oid of type_looked_up) oids.delete(oid);
+    if (oids.size !== 0) await lookup([...oids]);
+
+    const params = param_types.map((type_oid) => ({
+      type_oid,
+      type_name: type_names[type_oid] ?? sql_type_names[type_oid] ?? null,
+    }));
+    const ser_params = make_param_ser({ param_types });
+    const param_formats = param_types.map(type_format);
+
+    // request results in binary format where the type supports it. the result
+    // types of the unnamed statement may change between describing it and
+    // binding it, so it uses text, which any type can be decoded from (see
+    // read_bind())
+    columns = columns.map((c) => ({
+      ...c,
+      format: binary ? type_format(c.type_oid) : 0,
+    }));
+    const Row = make_row_ctor({ columns });
+    const column_formats = columns.map((c) => c.format);
+
+    return {
+      params,
+      param_types,
+      ser_params,
+      param_formats,
+      Row,
+      column_formats,
+    };
   }
 
   type ParameterDescription = EncoderType<typeof ParameterDescription>;
   interface ParameterSerializer {
-    (params: unknown[]): (string | null)[];
+    (params: unknown[]): (BinaryLike | null)[];
+  }
+
+  // https://www.postgresql.org/docs/current/catalog-pg-type.html
+  const types_base = temporal ? with_temporal_types(types) : types;
+  let type_base: SqlTypeMap = types_base; // with resolved types
+  let type_map = with_elem_types(type_base);
+  let type_names: Partial<Record<number, string>> = {};
+  const type_looked_up = new Set<number>();
+
+  // resolves types registered by name. other types are looked up when first
+  // described (see lookup_types()), so simple queries, which are not described,
+  // decode types that have not been looked up yet as text
+  async function load_types() {
+    // always run within rw lock (see open())
+    const map: Record<number, SqlType | undefined> = { ...types_base };
+    type_names = {};
+    type_looked_up.clear();
+
+    const names = Object.keys(types_base).filter((k) => !/^\d+$/.test(k));
+    if (names.length !== 0) {
+      const list = names.map((s) => `E'${s.replace(/['\\]/g, "\\$&")}'`);
+      write(QueryMessage, {
+        query: `select coalesce(json_agg(json_build_array(n.name, t.oid::int8, t.typarray::int8, t.typdelim)), '[]')
+from unnest(array[${list.join(", ")}]::text[]) n(name)
+left join pg_type t on t.oid = to_regtype(n.name)`,
+      });
+
+      let rows: [string, number | null, number, string][] = [];
+      for (;;) {
+        const msg = msg_check_err(await read_any());
+        if (msg_type(msg) === DataRow.type) {
+          const [json] = ser_decode(DataRow, msg).column_values;
+          rows = JSON.parse(from_utf8(json!));
+        } else if (msg_type(msg) === ReadyForQuery.type) break;
+      }
+
+      for (const [name, oid, typarray, typdelim] of rows) {
+        const type = types_base[name]!;
+        if (oid === null) {
+          log("warn", { type: name }, `registered type does not exist`);
+          continue;
+        }
+
+        map[oid] = type;
+        if (typarray !== 0 && types_base[typarray] === undefined)
+          map[typarray] = array_type(type, typdelim);
+      }
+    }
+
+    type_base = map;
+    type_map = with_elem_types(map);
+    param_sers.clear(), row_ctors.clear();
+  }
+
+  interface TypeInfo {
+    oid: number;
+    typtype: string;
+    typbasetype: number;
+    typelem: number;
+    typdelim: string;
+    name: string;
+    labels: string[];
+    attrs: [name: string, type_oid: number][];
+  }
+
+  // looks up the given types along with the types they are made of, to resolve
+  // domains to their base types, enums, composites and arrays of them
+  const type_lookup = `with recursive r(oid) as (
+  select unnest($1::oid[])
+  union
+  select x from r join pg_type t on t.oid = r.oid, unnest(array[t.typbasetype, t.typelem] ||
+    array(select a.atttypid from pg_attribute a where a.attrelid = t.typrelid and a.attnum > 0 and not a.attisdropped)) x
+  where x <> 0
+)
+select coalesce(json_agg(json_build_object(
+  'oid', t.oid::int8, 'typtype', t.typtype, 'typbasetype', t.typbasetype::int8, 'typdelim', t.typdelim,
+  'typelem', case when t.typcategory = 'A' then t.typelem::int8 else 0 end,
+  'name', case when ns.nspname = 'pg_catalog' then t.typname else ns.nspname || '.' || t.typname end,
+  'labels', array(select e.enumlabel from pg_enum e where e.enumtypid = t.oid order by e.enumsortorder),
+  'attrs', array(select json_build_array(a.attname, a.atttypid::int8) from pg_attribute a
+    where a.attrelid = t.typrelid and a.attnum > 0 and not a.attisdropped order by a.attnum)
+)), '[]')
+from r join pg_type t on t.oid = r.oid join pg_namespace ns on ns.oid = t.typnamespace`;
+
+  // the lookup is a query of its own, so it runs outside of the pipeline that
+  // described the types, unless that is a batch (see execute_batch())
+  async function lookup_types(oids: number[]) {
+    register_types(
+      oids,
+      await pipeline(() => write_lookup_types(oids), read_lookup_types)
+    );
+  }
+
+  function write_lookup_types(oids: number[]) {
+    write(Parse, { statement: "", query: type_lookup, param_types: [] });
+    write(Bind, {
+      portal: "",
+      statement: "",
+      param_formats: [],
+      param_values: [`{${oids.join(",")}}`],
+      column_formats: [],
+    });
+    write(Execute, { portal: "", row_limit: 0 });
+  }
+
+  async function read_lookup_types() {
+    await read(ParseComplete);
+    await read(BindComplete);
+    const [json] = (await read(DataRow)).column_values;
+    await read(CommandComplete);
+    return JSON.parse(from_utf8(json!)) as TypeInfo[];
+  }
+
+  function register_types(oids: number[], infos: TypeInfo[]) {
+    const map: Record<number, SqlType | undefined> = { ...type_base };
+    const by_oid = new Map(infos.map((t) => [t.oid, t]));
+    const resolve = (oid: number): SqlType | undefined => {
+      const t = by_oid.get(oid);
+      if (map[oid] !== undefined || t === undefined) return map[oid];
+      else if (t.typtype === "e") return (map[oid] = enum_type(t.labels));
+      else if (t.typtype === "c") {
+        const fields = t.attrs.map(([name, type_oid]) => {
+          return [name, resolve(type_oid) ?? map[0] ?? text] as const;
+        });
+        return (map[oid] = composite_type(fields));
+      } else if (t.typtype === "d") {
+        return (map[oid] = resolve(t.typbasetype)); // domains resolve to base type
+      } else if (t.typelem !== 0) {
+        const elem = resolve(t.typelem);
+        const { typdelim } = by_oid.get(t.typelem)!;
+        return (map[oid] = elem && array_type(elem, typdelim));
+      } else return undefined;
+    };
+
+    for (const oid of oids) type_looked_up.add(oid);
+    for (const t of infos) type_looked_up.add(t.oid);
+    for (const t of infos) (type_names[t.oid] = t.name), resolve(t.oid);
+    type_base = map;
+    type_map = with_elem_types(map);
+    param_sers.clear(), row_ctors.clear();
+  }
+
+  function type_of(type_oid: number) {
+    return type_map[type_oid] ?? type_map[0] ?? text;
+  }
+
+  // 1 for binary if the type has binary codecs, otherwise 0 for text
+  function type_format(type_oid: number) {
+    const type = type_of(type_oid);
+    return type.send && type.receive ? 1 : 0;
+  }
+
+  // compiled functions are cached by the description they were made for, as
+  // many statements share parameter and column types, and unnamed statements
+  // are described again on every call. cleared when the type map changes
+  const param_sers = new Map<string, ParameterSerializer>();
+  const row_ctors = new Map<string, RowConstructor>();
+
+  function jit_cached<T>(cache: Map<string, T>, key: string, f: () => T) {
+    let value = cache.get(key);
+    if (value === undefined) {
+      if (cache.size >= max_statements)
+        cache.delete(cache.keys().next().value!);
+      cache.set(key, (value = f()));
+    }
+    return value;
   }
 
   // makes function to serialize query parameters
   function make_param_ser({ param_types }: ParameterDescription) {
-    return jit.compiled<ParameterSerializer>`function ser_params(xs) {
-      return [
-        ${jit.map(", ", param_types, (type_oid, i) => {
-          const type = types[type_oid] ?? types[0] ?? text;
-          return jit`${type}.output(xs[${i}])`;
-        })}
-      ];
-    }`;
+    return jit_cached(param_sers, param_types.join(), () => {
+      return jit.compiled<ParameterSerializer>`function ser_params(xs) {
+        return [
+          ${jit.map(", ", param_types, (type_oid, i) => {
+            const type = type_of(type_oid);
+            return type_format(type_oid) === 1
+              ? jit`${type}.send(xs[${i}])`
+              : jit`${type}.output(xs[${i}])`;
+          })}
+        ];
+      }`;
+    });
   }
 
   type RowDescription = EncoderType<typeof RowDescription>;
   interface RowConstructor {
     new (columns: (BinaryLike | null)[]): Row;
+    columns: Column[];
   }
 
   // makes function to create Row objects
-  const EmptyRow = make_row_ctor({ columns: [] });
   function make_row_ctor({ columns }: RowDescription) {
+    const key = JSON.stringify(columns);
+    return jit_cached(row_ctors, key, () => compile_row_ctor(columns));
+  }
+
+  function compile_row_ctor(columns: RowDescription["columns"]) {
     const Row = jit.compiled<RowConstructor>`function Row(xs) {
-      ${jit.map(" ", columns, ({ name, type_oid }, i) => {
-        const type = types[type_oid] ?? types[0] ?? text;
-        return jit`this[${name}] = xs[${i}] === null ? null : ${type}.input(${from_utf8}(xs[${i}]));`;
+      ${jit.map(" ", columns, ({ name, type_oid, format }, i) => {
+        const type = type_of(type_oid);
+        return format === 1
+          ? jit`this[${name}] = xs[${i}] === null ? null : ${type}.receive(xs[${i}]);`
+          : jit`this[${name}] = xs[${i}] === null ? null : ${type}.input(${from_utf8}(xs[${i}]));`;
       })}
     }`;
 
@@ -1242,6 +1974,11 @@ function wire_impl(
       },
     });
 
+    Row.columns = columns.map((c) => ({
+      ...c,
+      type_name: type_names[c.type_oid] ?? sql_type_names[c.type_oid] ?? null,
+    }));
+
     return Row;
   }
 
@@ -1331,8 +2068,11 @@ function wire_impl(
   async function* execute_simple(
     query: string,
     stdin: ReadableStream<Uint8Array> | null,
-    stdout: WritableStream<Uint8Array> | null
+    stdout: WritableStream<Uint8Array> | null,
+    signal: AbortSignal | null
   ): RowStream<Row> {
+    if (signal?.aborted) throw query_cancelled(signal);
+    let columns: Column[] = []; // of the last result
     yield* await pipeline(
       () => {
         log("debug", { query }, `executing simple query`);
@@ -1351,11 +2091,18 @@ function wire_impl(
 
             case RowDescription.type: {
               const Row = make_row_ctor(ser_decode(RowDescription, msg));
-              const { rows } = await read_rows(Row, stdout);
-              chunks.push(rows), (stdout = null);
+              try {
+                const { rows } = await read_rows(Row, stdout);
+                chunks.push(rows), (stdout = null), (columns = Row.columns);
+              } catch (e) {
+                // e.g. a row that failed to decode. skip the rest of the
+                // result so that we stop at this query's ReadyForQuery
+                err ??= e;
+              }
               continue;
             }
 
+            case DataRow.type:
             case EmptyQueryResponse.type:
             case CommandComplete.type:
             case CopyInResponse.type:
@@ -1374,104 +2121,134 @@ function wire_impl(
             }
           }
         }
-      }
+      },
+      signal
     );
 
-    return { tag: "" };
+    return { tag: "", columns };
+  }
+
+  // binds the statement to the portal. the unnamed statement is parsed again
+  // with the described parameter types, as another query may have replaced it
+  // since, and the portal is described in case its result types have changed
+  function write_bind(
+    st: Statement,
+    portal: string,
+    { param_types, param_formats, column_formats }: StatementDescription,
+    param_values: (BinaryLike | null)[]
+  ) {
+    const { name: statement, query } = st;
+    if (statement === "") write(Parse, { statement, query, param_types });
+    write(Bind, {
+      portal,
+      statement,
+      param_formats,
+      param_values,
+      column_formats,
+    });
+    if (statement === "") write(Describe, { which: "P", name: portal });
+  }
+
+  // returns the Row constructor for the portal, which differs from the
+  // described one if the unnamed statement's result types have changed
+  async function read_bind(st: Statement, { Row }: StatementDescription) {
+    if (st.name === "") await read(ParseComplete);
+    await read(BindComplete);
+    if (st.name !== "") return Row;
+
+    const msg = msg_check_err(await read_any());
+    const { columns } =
+      msg_type(msg) === NoData.type
+        ? { columns: [] }
+        : ser_decode(RowDescription, msg);
+    const PortalRow = make_row_ctor({ columns });
+    if (PortalRow === Row) return Row;
+
+    // describe the query again next time. the results are in text, so they
+    // can be decoded whatever the new types are
+    st_drop(st);
+    return PortalRow;
   }
 
   async function* execute_fast(
     st: Statement,
     params: unknown[],
     stdin: ReadableStream<Uint8Array> | null,
-    stdout: WritableStream<Uint8Array> | null
+    stdout: WritableStream<Uint8Array> | null,
+    signal: AbortSignal | null
   ): RowStream<Row> {
+    if (signal?.aborted) throw query_cancelled(signal);
     const { query, name: statement } = st;
-    const { ser_params, Row } = await st.parse();
-    const param_values = ser_params(params);
-    const portal = st.portal();
-
-    try {
-      const { rows, tag } = await pipeline(
-        async () => {
-          log("debug", { query, statement, params }, `executing query`);
-          write(Bind, {
-            portal,
-            statement: st.name,
-            param_formats: [],
-            param_values,
-            column_formats: [],
-          });
-          write(Execute, { portal, row_limit: 0 });
-          await write_copy_in(stdin);
-          write(Close, { which: "P", name: portal });
-        },
-        async () => {
-          await read(BindComplete);
-          return read_rows(Row, stdout);
-        }
-      );
+    const desc = await st.parse();
+    const param_values = desc.ser_params(params);
 
-      if (rows.length) yield rows;
-      return { tag };
-    } catch (e) {
-      try {
-        await pipeline(
-          () => write(Close, { which: "P", name: portal }),
-          () => read(CloseComplete)
-        );
-      } catch {
-        // ignored
-      }
+    // the unnamed portal is closed by the next Bind or the end of the
+    // transaction, so it needs no Close
+    const { rows, tag, Row } = await pipeline(
+      async () => {
+        log("debug", { query, statement, params }, `executing query`);
+        write_bind(st, "", desc, param_values);
+        write(Execute, { portal: "", row_limit: 0 });
+        await write_copy_in(stdin);
+      },
+      async () => {
+        const Row = await read_bind(st, desc);
+        return { Row, ...(await read_rows(Row, stdout)) };
+      },
+      signal
+    );
 
-      throw e;
-    }
+    if (rows.length) yield rows;
+    return { tag, columns: Row.columns };
   }
 
+  // chunks are fetched across pipelines, so a named portal is used even for the
+  // unnamed statement. each Sync outside a transaction closes the portal, so
+  // this needs a transaction, which also keeps a transaction pooler on the
+  // same server connection
   async function* execute_chunked(
     st: Statement,
     params: unknown[],
     chunk_size: number,
     stdin: ReadableStream<Uint8Array> | null,
-    stdout: WritableStream<Uint8Array> | null
+    stdout: WritableStream<Uint8Array> | null,
+    signal: AbortSignal | null
   ): RowStream<Row> {
+    if (signal?.aborted) throw query_cancelled(signal);
     const { query, name: statement } = st;
-    const { ser_params, Row } = await st.parse();
-    const param_values = ser_params(params);
-    const portal = st.portal();
+    const desc = await st.parse();
+    const param_values = desc.ser_params(params);
+    const portal = `__pt${pt_ids++}`;
 
     try {
-      let { done, rows, tag } = await pipeline(
+      let { done, rows, tag, Row } = await pipeline(
         () => {
           log("debug", { query, statement, params }, `executing chunked query`);
-          write(Bind, {
-            portal,
-            statement: st.name,
-            param_formats: [],
-            param_values,
-            column_formats: [],
-          });
+          write_bind(st, portal, desc, param_values);
           write(Execute, { portal, row_limit: chunk_size });
           return write_copy_in(stdin);
         },
         async () => {
-          await read(BindComplete);
-          return read_rows(Row, stdout);
-        }
+          const Row = await read_bind(st, desc);
+          return { Row, ...(await read_rows(Row, stdout)) };
+        },
+        signal
       );
 
       if (rows.length) yield rows;
 
       while (!done) {
+        if (signal?.aborted) throw query_cancelled(signal);
         ({ done, rows, tag } = await pipeline(
           () => write(Execute, { portal, row_limit: chunk_size }),
-          () => read_rows(Row, stdout)
+          () => read_rows(Row, stdout),
+          signal
         ));
 
         if (rows.length) yield rows;
       }
 
-      return { tag };
+      return { tag, columns: Row.columns };
     } finally {
       await pipeline(
         () => write(Close, { which: "P", name: portal }),
@@ -1480,19 +2257,226 @@ function wire_impl(
     }
   }
 
-  function query(sql: SqlFragment) {
+  // cached statements can be invalidated by schema changes, in which case they
+  // are prepared again and retried once, unless rows have already been returned
+  // or the transaction has failed
+  async function* execute_prepared(
+    query: string,
+    stdin: ReadableStream<Uint8Array> | null,
+    f: (st: Statement) => RowStream<Row>
+  ): RowStream<Row> {
+    using st = st_get(query);
+    const iter = f(st)[Symbol.asyncIterator]();
+    let next;
+    try {
+      next = await iter.next();
+    } catch (e) {
+      if (stdin !== null || tx_status === "E" || !is_stale_statement(e))
+        throw e;
+      log("debug", { query, statement: st.name }, `re-preparing statement`);
+      st_drop(st);
+      using retry = st_get(query);
+      return yield* f(retry);
+    }
+
+    try {
+      for (; !next.done; next = await iter.next()) yield next.value;
+      return next.value;
+    } finally {
+      await iter.return?.();
+    }
+  }
+
+  async function* execute_timeout(
+    timeout: number,
+    signal: AbortSignal | null,
+    f: (signal: AbortSignal) => RowStream<Row>
+  ): RowStream<Row> {
+    const ctl = new AbortController();
+    const timer = setTimeout(() => {
+      const msg = `query timed out after ${timeout} ms`;
+      ctl.abort(new DOMException(msg, "TimeoutError"));
+    }, timeout);
+
+    try {
+      const signals = signal !== null ? [signal, ctl.signal] : [ctl.signal];
+      return yield* f(AbortSignal.any(signals));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // returns a reference to the statement for the query, which must be disposed
+  // after use
+  function st_get(query: string) {
+    let st = st_cache.get(query);
+    if (st) {
+      st_stats.hits++;
+      st_cache.delete(query), st_cache.set(query, st);
+      return st.ref();
+    }
+
+    st_stats.misses++;
+    st = new Statement(query).ref();
+    if (!statement_cache) return st.evict(), st;
+
+    st_cache.set(query, st);
+    for (const [query, st] of st_cache) {
+      if (st_cache.size <= max_statements) break;
+      st_cache.delete(query), st.evict(), st_stats.evictions++;
+    }
+    return st;
+  }
+
+  function st_drop(st: Statement) {
+    if (st_cache.get(st.query) === st) st_cache.delete(st.query);
+    st.evict();
+  }
+
+  function statement_stats(): StatementStats {
+    return { size: st_cache.size, ...st_stats };
+  }
+
+  async function describe(sql: SqlFragment): Promise<Description> {
+    const { query } = format(sql);
+    using st = st_get(query);
+    const { params, Row } = await st.parse();
+    return { params, columns: Row.columns };
+  }
+
+  function query(sql: SqlFragment, gated = false) {
     return new Query(
-      ({ simple = false, chunk_size = 0, stdin = null, stdout = null }) => {
+      ({
+        simple = false,
+        chunk_size = 0,
+        stdin = null,
+        stdout = null,
+        signal = null,
+        timeout = 0,
+      }) => {
         const { query, params } = format(sql);
-        if (simple) {
-          if (!params.length) return execute_simple(query, stdin, stdout);
-          else throw new WireError(`simple query cannot be parameterised`);
+        if (simple && params.length)
+          throw new WireError(`simple query cannot be parameterised`);
+
+        async function* execute(signal: AbortSignal | null): RowStream<Row> {
+          if (gated && ready !== null) await until_ready();
+          if (simple)
+            return yield* execute_simple(query, stdin, stdout, signal);
+          else if (!chunk_size)
+            return yield* execute_prepared(query, stdin, (st) =>
+              execute_fast(st, params, stdin, stdout, signal)
+            );
+          else
+            return yield* execute_prepared(query, stdin, (st) =>
+              execute_chunked(st, params, chunk_size, stdin, stdout, signal)
+            );
         }
 
-        let st = st_cache.get(query);
-        if (!st) st_cache.set(query, (st = new Statement(query)));
-        if (!chunk_size) return execute_fast(st, params, stdin, stdout);
-        else return execute_chunked(st, params, chunk_size, stdin, stdout);
+        if (!timeout) return execute(signal);
+        else return execute_timeout(timeout, signal, execute);
+      },
+      gated ? when_ready(() => describe(sql)) : () => describe(sql)
+    );
+  }
+
+  function when_ready<A extends unknown[], T>(f: (...args: A) => Promise<T>) {
+    return (...args: A) =>
+      ready === null ? f(...args) : until_ready().then(() => f(...args));
+  }
+
+  // runs the queries in one pipeline with a single Sync, so they share an
+  // implicit transaction and the first error aborts the rest. this takes one
+  // round trip once the statements have been described
+  async function batch(sqls: readonly SqlFragment[]): Promise<Rows<Row>[]> {
+    const queries = sqls.map((sql) => format(sql));
+    for (let retry = true; ; retry = false) {
+      const sts = queries.map(({ query }) => st_get(query));
+      try {
+        return await execute_batch(queries, sts);
+      } catch (e) {
+        if (!retry || tx_status === "E" || !is_stale_statement(e)) throw e;
+        log("debug", { queries }, `re-preparing batch statements`);
+        for (const st of sts) st_drop(st);
+      } finally {
+        for (const st of sts) st[Symbol.dispose]();
+      }
+    }
+  }
+
+  async function execute_batch(
+    queries: { query: string; params: unknown[] }[],
+    sts: Statement[]
+  ) {
+    // the responses are read in the order the messages are written, but the
+    // writer may need to wait for some of them (see describe())
+    const reading = Promise.withResolvers<void>();
+    const written = Promise.withResolvers<void>();
+    written.promise.catch(() => {}); // rethrown by the reader
+    const results: Promise<Rows<Row>>[] = [];
+    let reads: Promise<unknown> = reading.promise;
+
+    function expect<T>(r: () => Promise<T>) {
+      const res = reads.then(r);
+      return (reads = res).catch(() => {}), res;
+    }
+
+    // statements that have not been described yet are described within the
+    // batch, using Flush instead of Sync, so they may depend on the effects of
+    // earlier queries, e.g. a table created by one. the unnamed statement is
+    // used if another pipeline is already parsing the statement
+    async function describe(st: Statement) {
+      const { name, query } = st;
+      write(Parse, { statement: name, query, param_types: [] });
+      write(Describe, { which: "S", name });
+      write(Flush, {});
+      const desc = await expect(read_description);
+      return compile_description(desc, name !== "", (oids) => {
+        write_lookup_types(oids), write(Flush, {});
+        return expect(read_lookup_types).then((t) => register_types(oids, t));
+      });
+    }
+
+    return await pipeline(
+      async () => {
+        log("debug", { queries }, `executing batch`);
+        try {
+          for (let i = 0; i < queries.length; i++) {
+            let st = sts[i];
+            let desc =
+              st.described ?? (await st.parse_with(() => describe(st)));
+            if (desc === null) {
+              st = new Statement(st.query, "");
+              desc = await describe(st);
+            }
+
+            const param_values = desc.ser_params(queries[i].params);
+            write_bind(st, "", desc, param_values);
+            write(Execute, { portal: "", row_limit: 0 });
+            results.push(
+              expect(async () => {
+                const Row = await read_bind(st, desc);
+                const { rows, tag } = await read_rows(Row, null);
+                return Object.assign(rows, { tag, columns: Row.columns, rows });
+              })
+            );
+          }
+          written.resolve();
+        } catch (e) {
+          // earlier queries may already have run, so make the server fail the
+          // implicit transaction before the Sync would commit it
+          written.reject(e);
+          write(Execute, { portal: "__pglue_abort", row_limit: 0 });
+          throw e;
+        }
+      },
+      async () => {
+        reading.resolve();
+        try {
+          await written.promise;
+        } finally {
+          await reads.catch(() => {});
+        }
+        return await Promise.all(results);
       }
     );
   }
@@ -1518,6 +2502,7 @@ function wire_impl(
 
   const Transaction = class implements Transaction {
     readonly tag!: string;
+    readonly columns!: ReadonlyArray<Column>;
 
     get open(): boolean {
       return tx_stack.indexOf(this) !== -1;
@@ -1561,6 +2546,12 @@ function wire_impl(
     const res = await query(sql`listen ${sql.ident(channel)}`).execute();
     if (tx_status !== "I")
       log("warn", {}, `LISTEN executed inside transaction`);
+    if (!prepare)
+      log(
+        "warn",
+        { channel },
+        `LISTEN may not receive notifications through a transaction pooler`
+      );
     if ((ch = channels.get(channel))) return ch;
     return channels.set(channel, (ch = new Channel(channel, res))), ch;
   }
@@ -1574,6 +2565,7 @@ function wire_impl(
   const Channel = class extends TypedEmitter<ChannelEvents> implements Channel {
     readonly #name;
     readonly tag!: string;
+    readonly columns!: ReadonlyArray<Column>;
 
     get name() {
       return this.#name;
@@ -1590,12 +2582,14 @@ function wire_impl(
     }
 
     notify(payload: string) {
-      return notify(this.#name, payload);
+      return when_ready(notify)(this.#name, payload);
     }
 
     async unlisten() {
+      if (ready !== null) await until_ready();
       const name = this.#name;
-      if (channels.get(name) === this) channels.delete(name);
+      if (channels.get(name) === this)
+        channels.delete(name), this.emit("close");
       else throw new WireError(`channel is not listening`);
       return await query(sql`unlisten ${sql.ident(name)}`).execute();
     }
@@ -1605,7 +2599,50 @@ function wire_impl(
     }
   };
 
-  return { params, connect, query, begin, listen, notify, close };
+  // returns the session to a clean state by rolling back any transaction and
+  // unlistening all channels, then running the given statements, e.g. 'discard
+  // all' or 'reset all'. these also undo what on_connect set up, so it runs
+  // again afterwards
+  async function reset(statements: string | null = null) {
+    if (tx_stack.length !== 0 || tx_status !== "I") {
+      tx_stack.length = 0;
+      await tx_rollback.execute();
+    }
+
+    let undone = statements !== null;
+    if (channels.size !== 0) {
+      const closed = [...channels.values()];
+      channels.clear(), (undone = true);
+      for (const ch of closed) ch.emit("close");
+      await query(sql`unlisten *`).execute();
+    }
+
+    if (statements !== null) {
+      await query(sql.raw(statements)).simple().execute();
+      // the server deallocated our prepared statements, so there is nothing
+      // left to close
+      if (/\b(?:discard\s+all|deallocate)\b/i.test(statements))
+        st_cache.clear();
+    }
+
+    if (undone && on_connect !== null)
+      await set_up(async () => await on_connect(setup_query, wire));
+  }
+
+  return {
+    params,
+    connect,
+    query: (sql: SqlFragment) => query(sql, true),
+    describe: when_ready(describe),
+    batch: when_ready(batch),
+    statement_stats,
+    begin: when_ready(begin),
+    listen: when_ready(listen),
+    notify: when_ready(notify),
+    reset: when_ready(reset),
+    cancel,
+    close,
+  };
 }
 
 export type PoolOptions = v.Infer<typeof PoolOptions>;
@@ -1614,19 +2651,68 @@ export const PoolOptions = WireOptions.extend({
     .number()
     .optional(() => 10)
     .assert(Number.isSafeInteger, `invalid number`),
-  idle_timeout: v
+  min_connections: v
+    .number()
+    .optional(() => 0)
+    .assert(Number.isSafeInteger, `invalid number`),
+  idle_timeout: v // seconds, or 0 to keep idle connections open
     .number()
     .optional(() => 30)
     .assert(Number.isSafeInteger, `invalid number`),
-});
+  max_lifetime: v // seconds, or 0 for no limit
+    .number()
+    .optional(() => 0)
+    .assert(Number.isSafeInteger, `invalid number`),
+  prewarm: v.boolean().optional(() => false),
+  acquire_timeout: v // milliseconds to wait for a permit and connect
+    .number()
+    .assert(Number.isSafeInteger, `invalid number`)
+    .nullable()
+    .optional(() => null),
+  max_waiting: v
+    .number()
+    .assert(Number.isSafeInteger, `invalid number`)
+    .nullable()
+    .optional(() => null),
+  reset_query: v
+    .string()
+    .nullable()
+    .optional(() => null),
+  validate_after: v // seconds idle before validating, or null to never validate
+    .number()
+    .assert(Number.isSafeInteger, `invalid number`)
+    .nullable()
+    .optional(() => null),
+  validate_query: v.string().optional(() => "select 1"),
+}).assert(
+  (o) => o.min_connections <= o.max_connections,
+  `min_connections must not exceed max_connections`
+);
 
 export type PoolEvents = {
   log(level: LogLevel, ctx: object, msg: string): void;
+  connect(connection_id: number): void;
+  acquire(connection_id: number, wait_ms: number): void;
+  release(connection_id: number, hold_ms: number): void;
+  remove(connection_id: number, reason?: unknown): void;
+  error(error: unknown, connection_id: number | null): void;
 };
 
+export interface PoolStats {
+  readonly total: number;
+  readonly idle: number;
+  readonly borrowed: number;
+  readonly waiting: number;
+  readonly acquire_count: number;
+  readonly acquire_ms: number; // total time spent waiting
+  // cumulative counts of acquisitions that waited at most le ms
+  readonly acquire_latency: ReadonlyArray<{ le: number; count: number }>;
+}
+
 export interface PoolWire<V extends WireEvents = WireEvents> extends Wire<V> {
   readonly connection_id: number;
   readonly borrowed: boolean;
+  // returns the wire to the pool asynchronously, once it has been reset
   release(): void;
 }
 
@@ -1641,6 +2727,7 @@ export class Pool<V extends PoolEvents = PoolEvents>
   readonly #options;
   readonly #acquire;
   readonly #begin;
+  readonly #stats;
   readonly #close;
 
   constructor(options: PoolOptions) {
@@ -1648,10 +2735,15 @@ export class Pool<V extends PoolEvents = PoolEvents>
     ({
       acquire: this.#acquire,
       begin: this.#begin,
+      stats: this.#stats,
       close: this.#close,
     } = pool_impl(this, (this.#options = options)));
   }
 
+  stats(): PoolStats {
+    return this.#stats();
+  }
+
   async connect(options: Partial<WireOptions> = {}) {
     return await new Wire(
       WireOptions.parse({ ...this.#options, ...options }, { mode: "strip" })
@@ -1660,14 +2752,20 @@ export class Pool<V extends PoolEvents = PoolEvents>
       .connect();
   }
 
-  get(): Promise<PoolWire>;
-  get<T>(f: (wire: PoolWire) => T | PromiseLike<T>): Promise<T>;
-  async get(f?: (wire: PoolWire) => unknown) {
-    if (typeof f !== "undefined") {
-      using wire = await this.#acquire();
+  get(signal?: AbortSignal | null): Promise<PoolWire>;
+  get<T>(
+    f: (wire: PoolWire) => T | PromiseLike<T>,
+    signal?: AbortSignal | null
+  ): Promise<T>;
+  async get(
+    f?: ((wire: PoolWire) => unknown) | AbortSignal | null,
+    signal: AbortSignal | null = null
+  ): Promise<unknown> {
+    if (typeof f === "function") {
+      using wire = await this.#acquire(signal);
       return await f(wire);
     } else {
-      return this.#acquire();
+      return this.#acquire(f ?? null);
     }
   }
 
@@ -1676,10 +2774,31 @@ export class Pool<V extends PoolEvents = PoolEvents>
   query(s: TemplateStringsArray | SqlFragment, ...xs: unknown[]) {
     s = is_sql(s) ? s : sql(s, ...xs);
     const acquire = this.#acquire;
-    return new Query(async function* stream(options) {
-      using wire = await acquire();
-      return yield* wire.query(s).stream(options);
-    });
+    return new Query(
+      async function* stream(options) {
+        using wire = await acquire(options.signal ?? null);
+        return yield* wire.query(s).stream(options);
+      },
+      async () => {
+        using wire = await acquire();
+        return await wire.describe(s);
+      }
+    );
+  }
+
+  describe(sql: SqlFragment): Promise<Description>;
+  describe(s: TemplateStringsArray, ...xs: unknown[]): Promise<Description>;
+  async describe(
+    s: TemplateStringsArray | SqlFragment,
+    ...xs: unknown[]
+  ): Promise<Description> {
+    using wire = await this.#acquire();
+    return await wire.describe(is_sql(s) ? s : sql(s, ...xs));
+  }
+
+  async batch(queries: readonly SqlFragment[]): Promise<Rows<Row>[]> {
+    using wire = await this.#acquire();
+    return await wire.batch(queries);
   }
 
   begin(): Promise<PoolTransaction>;
@@ -1700,7 +2819,7 @@ export class Pool<V extends PoolEvents = PoolEvents>
   then<T = PoolWire, U = never>(
     f?: ((wire: PoolWire) => T | PromiseLike<T>) | null,
     g?: ((reason?: unknown) => U | PromiseLike<U>) | null
-  ) {
+  ): Promise<T | U> {
     return this.get().then(f, g);
   }
 
@@ -1715,15 +2834,43 @@ export class Pool<V extends PoolEvents = PoolEvents>
 
 function pool_impl(
   pool: Pool,
-  { max_connections, idle_timeout: _, ...options }: PoolOptions
+  {
+    max_connections,
+    min_connections,
+    idle_timeout,
+    max_lifetime,
+    prewarm,
+    acquire_timeout,
+    max_waiting,
+    reset_query,
+    validate_after,
+    validate_query,
+    ...options
+  }: PoolOptions
 ) {
-  const lock = semaphore(max_connections);
+  // permits for max_connections, handed to waiters in order. unlike a
+  // semaphore, waiters that give up are removed from the queue
+  let permits = max_connections;
+  let held = 0; // permits taken
+  const waiters: (() => void)[] = [];
   const all = new Set<PoolWire>();
   const free: PoolWire[] = [];
+  const idle_timers = new Map<PoolWire, number>();
+  const idle_since = new Map<PoolWire, number>();
+  const borrowed_since = new Map<PoolWire, number>();
   let ids = 0;
+  let filling = 0; // connections being opened by fill()
+  let generation = 0; // incremented on close
 
   const PoolWire = class extends Wire implements PoolWire {
     readonly #id = ids++;
+    readonly #created = Date.now();
+
+    get #expired() {
+      return (
+        max_lifetime !== 0 && Date.now() - this.#created >= max_lifetime * 1000
+      );
+    }
 
     get connection_id() {
       return this.#id;
@@ -1733,9 +2880,33 @@ function pool_impl(
       return free.indexOf(this) === -1;
     }
 
+    #resetting = false;
+
+    // the wire is returned to the pool once it has been reset. this is always
+    // asynchronous, even without a reset_query, because an open transaction or
+    // LISTEN channels left by the borrower must be cleaned up first
     release() {
-      if (all.has(this) && free.indexOf(this) === -1)
-        free.push(this), lock.release();
+      if (!all.has(this) || free.indexOf(this) !== -1 || this.#resetting)
+        return;
+
+      const since = borrowed_since.get(this) ?? Date.now();
+      borrowed_since.delete(this);
+      pool.emit("release", this.#id, Date.now() - since);
+      if (this.#expired) return forget(this, `max_lifetime`), this.close();
+
+      this.#resetting = true;
+      this.reset(reset_query).then(
+        () => {
+          this.#resetting = false;
+          if (all.has(this)) free.push(this), idle(this), unlock();
+        },
+        (err) => {
+          this.#resetting = false;
+          pool.emit("log", "warn", err, `failed to reset connection`);
+          pool.emit("error", err, this.#id);
+          forget(this, err), this.close();
+        }
+      );
     }
 
     override [Symbol.dispose]() {
@@ -1755,6 +2926,10 @@ function pool_impl(
       return this.#tx.tag;
     }
 
+    get columns() {
+      return this.#tx.columns;
+    }
+
     get open() {
       return this.#tx.open;
     }
@@ -1779,31 +2954,205 @@ function pool_impl(
     }
   };
 
-  async function connect() {
+  // opens a new connection, giving up and closing it if it is not set up by
+  // the deadline (a Date.now() timestamp)
+  async function connect(deadline = Infinity) {
     const wire = new PoolWire({ ...options, reconnect_delay: null });
     const { connection_id } = wire
       .on("log", (l, c, s) => pool.emit("log", l, { ...c, connection_id }, s))
-      .on("close", () => forget(wire));
-    return await wire.connect(), all.add(wire), wire;
+      .on("close", (reason) => forget(wire, reason));
+
+    let timer;
+    try {
+      await new Promise<void>((res, rej) => {
+        wire.connect().then(() => res(), rej);
+        if (deadline !== Infinity) {
+          timer = setTimeout(() => {
+            const msg = `timed out waiting for a connection after ${acquire_timeout} ms`;
+            rej(new PoolTimeoutError(msg)), wire.close();
+          }, deadline - Date.now());
+        }
+      });
+    } catch (e) {
+      throw (pool.emit("error", e, connection_id), e);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    pool.emit("connect", connection_id);
+    return all.add(wire), wire;
   }
 
-  async function acquire() {
-    await lock();
+  async function acquire(signal: AbortSignal | null = null) {
+    if (signal?.aborted) throw acquire_cancelled(signal);
+    else if (
+      max_waiting !== null &&
+      held + waiters.length >= max_connections + max_waiting
+    ) {
+      throw new PoolExhaustedError(
+        `too many callers waiting for a connection (max_waiting ${max_waiting})`
+      );
+    }
+
+    const start = Date.now();
+    await wait(signal), held++;
     try {
-      return free.pop() ?? (await connect());
+      let wire;
+      while ((wire = free.pop()) && !(await validate(wire)));
+      wire ??= await connect(
+        acquire_timeout !== null ? start + acquire_timeout : Infinity
+      );
+
+      const now = Date.now();
+      borrowed_since.set(wire, now), record_acquire(now - start);
+      pool.emit("acquire", wire.connection_id, now - start);
+      return wire;
     } catch (e) {
-      throw (lock.release(), e);
+      throw (unlock(), e);
     }
   }
 
-  function forget(wire: PoolWire) {
-    if (all.delete(wire)) {
+  const acquire_buckets = [1, 5, 10, 50, 100, 500, 1000, 5000, Infinity];
+  const acquire_counts = acquire_buckets.map(() => 0);
+  let acquire_count = 0;
+  let acquire_ms = 0;
+
+  function record_acquire(ms: number) {
+    acquire_counts[acquire_buckets.findIndex((le) => ms <= le)]++;
+    acquire_count++, (acquire_ms += ms);
+  }
+
+  function stats(): PoolStats {
+    let count = 0;
+    return {
+      total: all.size,
+      idle: free.length,
+      borrowed: all.size - free.length,
+      waiting: waiters.length,
+      acquire_count,
+      acquire_ms,
+      acquire_latency: acquire_buckets.map((le, i) => ({
+        le,
+        count: (count += acquire_counts[i]),
+      })),
+    };
+  }
+
+  // waits for a permit, leaving the queue if the caller gives up first
+  async function wait(signal: AbortSignal | null) {
+    if (permits > 0) return void permits--;
+    let timer, abort;
+    try {
+      await new Promise<void>((res, rej) => {
+        waiters.push(res);
+        const give_up = (e: Error) => {
+          const i = waiters.indexOf(res);
+          if (i !== -1) waiters.splice(i, 1), rej(e); // else already passed on
+        };
+
+        if (acquire_timeout !== null) {
+          timer = setTimeout(() => {
+            const msg = `timed out waiting for a connection after ${acquire_timeout} ms`;
+            give_up(new PoolTimeoutError(msg));
+          }, acquire_timeout);
+        }
+        abort = () => give_up(acquire_cancelled(signal!));
+        signal?.addEventListener("abort", abort, { once: true });
+      });
+    } finally {
+      clearTimeout(timer);
+      if (abort) signal?.removeEventListener("abort", abort);
+    }
+  }
+
+  function acquire_cancelled({ reason }: AbortSignal) {
+    if (reason instanceof DOMException && reason.name === "TimeoutError")
+      return new PoolTimeoutError(`connection acquisition timed out`, {
+        cause: reason,
+      });
+    else
+      return new PoolCancelledError(`connection acquisition cancelled`, {
+        cause: reason,
+      });
+  }
+
+  function unlock() {
+    held--;
+    const next = waiters.shift();
+    if (next !== undefined) next();
+    else permits++;
+  }
+
+  // checks a connection that was idle for longer than validate_after, closing it
+  // if it fails
+  async function validate(wire: PoolWire) {
+    const since = idle_since.get(wire) ?? Date.now();
+    clearTimeout(idle_timers.get(wire)), idle_timers.delete(wire);
+    idle_since.delete(wire);
+    if (validate_after === null || Date.now() - since < validate_after * 1000)
+      return true;
+
+    try {
+      await wire.query(sql.raw(validate_query)).simple().execute();
+      return true;
+    } catch (err) {
+      pool.emit("log", "warn", err, `connection failed validation`);
+      pool.emit("error", err, wire.connection_id);
+      remove(wire, err), wire.close(), fill();
+      return false;
+    }
+  }
+
+  // closes the connection if it stays idle, unless the pool would shrink below
+  // min_connections
+  function idle(wire: PoolWire) {
+    idle_since.set(wire, Date.now());
+    if (idle_timeout === 0) return;
+    const timer = setTimeout(() => {
+      idle_timers.delete(wire);
+      if (all.size > min_connections)
+        forget(wire, `idle_timeout`), wire.close();
+    }, idle_timeout * 1000);
+    Deno.unrefTimer(timer), idle_timers.set(wire, timer);
+  }
+
+  // removes the wire from the pool, releasing its permit if it was borrowed
+  function forget(wire: PoolWire, reason?: unknown) {
+    if (remove(wire, reason)) {
       const i = free.indexOf(wire);
       if (i !== -1) free.splice(i, 1);
-      else lock.release();
+      else unlock();
+      fill();
     }
   }
 
+  // opens connections until there are min_connections, e.g. after some were
+  // retired. each takes a permit while it connects, but only a free one, so
+  // that callers waiting for a permit go first
+  function fill() {
+    const gen = generation;
+    for (; all.size + filling < min_connections && permits > 0; ) {
+      permits--, held++, filling++;
+      connect().then(
+        (wire) => {
+          if (gen !== generation) return remove(wire), wire.close();
+          filling--, free.push(wire), idle(wire), unlock();
+        },
+        (err) => {
+          if (gen === generation) filling--, unlock();
+          pool.emit("log", "warn", err, `failed to open connection`);
+        }
+      );
+    }
+  }
+
+  function remove(wire: PoolWire, reason?: unknown) {
+    clearTimeout(idle_timers.get(wire)), idle_timers.delete(wire);
+    idle_since.delete(wire), borrowed_since.delete(wire);
+    if (!all.delete(wire)) return false;
+    else return pool.emit("remove", wire.connection_id, reason), true;
+  }
+
   async function begin() {
     const wire = await acquire();
     try {
@@ -1814,9 +3163,15 @@ function pool_impl(
   }
 
   function close() {
+    generation++, (filling = 0);
+    for (const timer of idle_timers.values()) clearTimeout(timer);
     for (const wire of all) wire.close();
-    all.clear(), (free.length = 0), lock.reset(max_connections);
+    all.clear(), (free.length = 0), idle_timers.clear(), idle_since.clear();
+    borrowed_since.clear();
+    (permits = max_connections), (held = 0), (waiters.length = 0);
   }
 
-  return { acquire, begin, close };
+  if (prewarm) fill();
+
+  return { acquire, begin, stats, close };
 }